@@ -0,0 +1,348 @@
+// @vitest-environment jsdom
+import { describe, expect, it, vi } from 'vitest';
+import { createKnobEventHandlers } from './events.js';
+import { createKnobState } from '../stores/knob.svelte.js';
+
+type KnobConfiguration = Parameters<typeof createKnobState>[0];
+type HandlersConfiguration = Parameters<typeof createKnobEventHandlers>[1];
+
+/**
+ * Creates a knob store with event handlers, and a function pressing keys on it
+ * @param config - Store configuration besides the defaults
+ * @param handlersConfig - Event handler configuration besides the defaults
+ */
+const createKnob = (
+	config: Partial<KnobConfiguration> = {},
+	handlersConfig: Partial<HandlersConfiguration> = {}
+) => {
+	const knob = createKnobState({
+		min: 0,
+		max: 100,
+		initialValue: 50,
+		multiRotation: false,
+		angleOffset: 0,
+		angleRange: 360,
+		size: 100,
+		readOnly: false,
+		tracking: true,
+		useMouseWheel: true,
+		onChange: vi.fn(),
+		onInteractiveChange: vi.fn(),
+		onStart: vi.fn(),
+		onEnd: vi.fn(),
+		...config
+	} as KnobConfiguration);
+	const handlers = createKnobEventHandlers(knob, {
+		readOnly: false,
+		useMouseWheel: true,
+		...handlersConfig
+	});
+
+	/**
+	 * Presses a key on the knob
+	 * @returns Whether the key was handled
+	 */
+	const press = (key: string, modifiers: KeyboardEventInit = {}) => {
+		const event = new KeyboardEvent('keydown', { key, cancelable: true, ...modifiers });
+		handlers.handleKeyDown(event);
+		return event.defaultPrevented;
+	};
+
+	return { knob, handlers, press };
+};
+
+// jsdom has no pointer events
+if (!window.PointerEvent) {
+	window.PointerEvent = class extends MouseEvent {
+		pointerId: number;
+		pointerType: string;
+		constructor(type: string, init: PointerEventInit = {}) {
+			super(type, init);
+			this.pointerId = init.pointerId ?? 1;
+			this.pointerType = init.pointerType ?? 'mouse';
+		}
+	} as unknown as typeof PointerEvent;
+}
+
+/**
+ * Creates an element at the origin listening to the pointer handlers, so client
+ * coordinates are relative to its center
+ */
+const createElement = (handlers: ReturnType<typeof createKnobEventHandlers>) => {
+	const element = document.createElement('div');
+	element.setPointerCapture = () => {};
+	element.releasePointerCapture = () => {};
+	element.addEventListener('pointerdown', handlers.handleStart);
+	document.body.append(element);
+	return element;
+};
+
+/**
+ * Dispatches a mouse pointer event at client coordinates
+ */
+const pointer = (
+	target: EventTarget,
+	type: string,
+	clientX: number,
+	clientY: number,
+	modifiers: PointerEventInit = {}
+) =>
+	target.dispatchEvent(
+		new PointerEvent(type, {
+			clientX,
+			clientY,
+			button: 0,
+			bubbles: true,
+			cancelable: true,
+			...modifiers
+		})
+	);
+
+/**
+ * Dispatches a mouse pointer event at an angle around the knob (0 at the top, clockwise)
+ */
+const pointerAt = (
+	target: EventTarget,
+	type: string,
+	angle: number,
+	modifiers: PointerEventInit = {}
+) => {
+	const radians = (angle * Math.PI) / 180;
+	pointer(target, type, Math.sin(radians) * 40, -Math.cos(radians) * 40, modifiers);
+};
+
+describe('handleKeyDown', () => {
+	it('steps by a hundredth of the dial by default', () => {
+		const { knob, press } = createKnob({ min: 0, max: 1, initialValue: 0.5 });
+		press('ArrowUp');
+		expect(knob.state.value).toBeCloseTo(0.51);
+		press('ArrowLeft');
+		press('ArrowDown');
+		expect(knob.state.value).toBeCloseTo(0.49);
+	});
+
+	it('steps by one snap step when steps are set', () => {
+		const { knob, press } = createKnob({ steps: 4 });
+		press('ArrowRight');
+		expect(knob.state.value).toBe(75);
+	});
+
+	it('steps by keyboardStep in value units', () => {
+		const { knob, press } = createKnob({ keyboardStep: 5 });
+		press('ArrowRight');
+		expect(knob.state.value).toBe(55);
+	});
+
+	it('makes steps coarser with Shift and finer with Ctrl or Alt', () => {
+		const { knob, press } = createKnob({ keyboardStep: 5 });
+		press('ArrowRight', { shiftKey: true });
+		expect(knob.state.value).toBe(100);
+		press('ArrowLeft', { ctrlKey: true });
+		expect(knob.state.value).toBeCloseTo(99.5);
+		press('ArrowLeft', { altKey: true });
+		expect(knob.state.value).toBeCloseTo(99);
+	});
+
+	it('keeps fine steps at one snap step', () => {
+		const { knob, press } = createKnob({ steps: 4 });
+		press('ArrowRight', { ctrlKey: true });
+		expect(knob.state.value).toBe(75);
+	});
+
+	it('jumps with PageUp and PageDown', () => {
+		const { knob, press } = createKnob({ keyboardStep: 2 });
+		press('PageUp');
+		expect(knob.state.value).toBe(70);
+		press('PageDown');
+		press('PageDown');
+		expect(knob.state.value).toBeCloseTo(30);
+	});
+
+	it('goes to the range limits with Home and End', () => {
+		const { knob, press } = createKnob({ min: 10, max: 90 });
+		press('End');
+		expect(knob.state.value).toBe(90);
+		press('Home');
+		expect(knob.state.value).toBe(10);
+	});
+
+	it('follows the value on a range running from high to low', () => {
+		const { knob, press } = createKnob({ min: 100, max: 0, initialValue: 50 });
+		press('ArrowUp');
+		expect(knob.state.value).toBeCloseTo(51);
+		press('PageDown');
+		expect(knob.state.value).toBeCloseTo(41);
+		press('End');
+		expect(knob.state.value).toBe(100);
+		press('Home');
+		expect(knob.state.value).toBe(0);
+	});
+
+	it('ignores Home and End on an endless knob', () => {
+		const { knob, press } = createKnob({ endless: true });
+		press('End');
+		expect(knob.state.value).toBe(50);
+	});
+
+	it('opens the inline editor with Enter', () => {
+		const { knob, press } = createKnob();
+		expect(press('Enter')).toBe(false);
+
+		knob.registerEditor();
+		expect(press('Enter')).toBe(true);
+		expect(knob.state.isEditing).toBe(true);
+	});
+
+	it('leaves other keys and read-only knobs alone', () => {
+		expect(createKnob().press('a')).toBe(false);
+
+		const { knob, press } = createKnob({}, { readOnly: true });
+		expect(press('ArrowUp')).toBe(false);
+		expect(knob.state.value).toBe(50);
+	});
+});
+
+describe('interactiveHook', () => {
+	it('applies the steps returned for each pointer event', () => {
+		const { knob, handlers } = createKnob(
+			{ initialValue: 0 },
+			{ interactiveHook: ({ shiftKey }) => (shiftKey ? { steps: 10 } : {}) }
+		);
+		const element = createElement(handlers);
+
+		pointerAt(element, 'pointerdown', 100);
+		expect(knob.state.value).toBeCloseTo((100 / 360) * 100);
+		pointerAt(element, 'pointermove', 110, { shiftKey: true });
+		expect(knob.state.value).toBeCloseTo(30);
+		pointerAt(element, 'pointerup', 110);
+	});
+
+	it('ignores pointer events for which it returns readOnly', () => {
+		const { knob, handlers } = createKnob({}, { interactiveHook: () => ({ readOnly: true }) });
+		pointerAt(createElement(handlers), 'pointerdown', 100);
+		expect(knob.state.isActive).toBe(false);
+		expect(knob.state.value).toBe(50);
+	});
+});
+
+describe('linear drag modes', () => {
+	it('does not jump to the pointer when a linear drag starts', () => {
+		const { knob, handlers } = createKnob({}, { dragMode: 'vertical' });
+		pointerAt(createElement(handlers), 'pointerdown', 300);
+		expect(knob.state.isActive).toBe(true);
+		expect(knob.state.value).toBe(50);
+	});
+
+	it('increases the value when dragging up in vertical mode', () => {
+		const { knob, handlers } = createKnob({}, { dragMode: 'vertical', dragPixels: 100 });
+		const element = createElement(handlers);
+		pointer(element, 'pointerdown', 0, 0);
+		pointer(element, 'pointermove', 30, -10);
+		expect(knob.state.value).toBeCloseTo(60);
+		pointer(element, 'pointermove', 30, 20);
+		expect(knob.state.value).toBeCloseTo(30);
+		pointer(element, 'pointerup', 30, 20);
+		expect(knob.state.isActive).toBe(false);
+	});
+
+	it('increases the value when dragging right in horizontal mode', () => {
+		const { knob, handlers } = createKnob({}, { dragMode: 'horizontal', dragPixels: 100 });
+		const element = createElement(handlers);
+		pointer(element, 'pointerdown', 0, 0);
+		pointer(element, 'pointermove', 20, -50);
+		expect(knob.state.value).toBeCloseTo(70);
+	});
+
+	it('adds up both axes in combined mode', () => {
+		const { knob, handlers } = createKnob({}, { dragMode: 'both', dragPixels: 100 });
+		const element = createElement(handlers);
+		pointer(element, 'pointerdown', 0, 0);
+		pointer(element, 'pointermove', 10, -5);
+		expect(knob.state.value).toBeCloseTo(65);
+	});
+
+	it('sweeps the full range over 200 pixels by default', () => {
+		const { knob, handlers } = createKnob({ initialValue: 0 }, { dragMode: 'vertical' });
+		const element = createElement(handlers);
+		pointer(element, 'pointerdown', 0, 0);
+		pointer(element, 'pointermove', 0, -100);
+		expect(knob.state.value).toBeCloseTo(50);
+		pointer(element, 'pointermove', 0, -300);
+		expect(knob.state.value).toBe(100);
+	});
+});
+
+describe('reset', () => {
+	it('resets to the default value with a reset key and notifies', () => {
+		const onChange = vi.fn();
+		const onInteractiveChange = vi.fn();
+		const { knob, press } = createKnob(
+			{ defaultValue: 20, onChange, onInteractiveChange },
+			{ resetKeys: ['Delete'] }
+		);
+		expect(press('Delete')).toBe(true);
+		expect(knob.state.value).toBe(20);
+		expect(onChange).toHaveBeenCalledWith(20);
+		expect(onInteractiveChange).toHaveBeenCalledWith(20);
+	});
+
+	it('ignores the reset key on a read-only knob', () => {
+		const { knob, press } = createKnob(
+			{ defaultValue: 20 },
+			{ readOnly: true, resetKeys: ['Delete'] }
+		);
+		expect(press('Delete')).toBe(false);
+		expect(knob.state.value).toBe(50);
+	});
+
+	it('ignores the reset key when the hook returns readOnly', () => {
+		let locked = true;
+		const interactiveHook = vi.fn(() => ({ readOnly: locked }));
+		const { knob, press } = createKnob(
+			{ defaultValue: 20 },
+			{ interactiveHook, resetKeys: ['Delete'] }
+		);
+		expect(press('Delete', { shiftKey: true })).toBe(false);
+		expect(knob.state.value).toBe(50);
+		expect(interactiveHook).toHaveBeenCalledWith(expect.objectContaining({ shiftKey: true }));
+
+		locked = false;
+		expect(press('Delete')).toBe(true);
+		expect(knob.state.value).toBe(20);
+	});
+
+	it('keeps the value without a default value', () => {
+		const { knob, press } = createKnob({}, { resetKeys: ['Delete'] });
+		press('Delete');
+		expect(knob.state.value).toBe(50);
+	});
+
+	it('resets on double-click unless the hook returns readOnly', () => {
+		let locked = false;
+		const { knob, handlers } = createKnob(
+			{ defaultValue: 20 },
+			{ interactiveHook: () => ({ readOnly: locked }) }
+		);
+		const element = createElement(handlers);
+		element.addEventListener('dblclick', handlers.handleDoubleClick);
+
+		locked = true;
+		element.dispatchEvent(new MouseEvent('dblclick'));
+		expect(knob.state.value).toBe(50);
+
+		locked = false;
+		element.dispatchEvent(new MouseEvent('dblclick'));
+		expect(knob.state.value).toBe(20);
+	});
+
+	it('resets on a double-tap', () => {
+		const { knob, handlers } = createKnob({ defaultValue: 20 }, { dragMode: 'vertical' });
+		const element = createElement(handlers);
+		pointer(element, 'pointerdown', 0, 0, { pointerType: 'touch' });
+		pointer(element, 'pointerup', 0, 0, { pointerType: 'touch' });
+		expect(knob.state.value).toBe(50);
+
+		pointer(element, 'pointerdown', 0, 0, { pointerType: 'touch' });
+		expect(knob.state.value).toBe(20);
+	});
+});
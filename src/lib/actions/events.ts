@@ -1,4 +1,4 @@
-import type { InteractiveHook, InteractiveHookResult } from '../types.js';
+import type { DragMode, InteractiveHook, InteractiveHookResult } from '../types.js';
 
 /**
  * Mouse position interface representing both cartesian and polar coordinates
@@ -12,13 +12,40 @@ interface MousePosition {
 }
 
 /**
- * Mapping of keyboard arrow keys to their corresponding direction values
+ * Step multiplier applied while Shift is held
+ */
+const COARSE_STEP_MULTIPLIER = 10;
+
+/**
+ * Step multiplier applied while Ctrl or Alt is held
+ */
+const FINE_STEP_MULTIPLIER = 0.1;
+
+/**
+ * Number of steps moved by PageUp/PageDown
+ */
+const PAGE_STEPS = 10;
+
+/**
+ * Pixels of pointer movement needed to sweep the full range in linear drag modes
+ */
+const DEFAULT_DRAG_PIXELS = 200;
+
+/**
+ * Maximum delay in milliseconds between two taps to count as a double-tap
+ */
+const DOUBLE_TAP_DELAY = 300;
+
+/**
+ * Mapping of keyboard keys to their corresponding number of steps
  */
 const DIRECTIONS: Record<string, number> = {
 	ArrowLeft: -1,
 	ArrowUp: 1,
 	ArrowRight: 1,
-	ArrowDown: -1
+	ArrowDown: -1,
+	PageUp: PAGE_STEPS,
+	PageDown: -PAGE_STEPS
 };
 
 /**
@@ -37,6 +64,11 @@ const getClientCenter = (elem: HTMLElement) => {
 	return center;
 };
 
+/**
+ * Position passed to the interactive hook for keyboard input, which has no pointer
+ */
+const KEYBOARD_POSITION: MousePosition = { mouseX: 0, mouseY: 0, mouseRadius: 0, mouseAngle: 0 };
+
 /**
  * Compute mouse position relative to the elem center
  * and converts it to polar coordinates with angle in degrees
@@ -72,22 +104,70 @@ const getMousePosition = (elem: HTMLElement, e: PointerEvent | MouseEvent): Mous
  */
 export function createKnobEventHandlers(
 	knobState: {
-		handleStart: (mouseAngle: number) => void;
-		handleMove: (mouseAngle: number) => void;
+		handleStart: (mouseAngle: number, hookResult?: InteractiveHookResult) => void;
+		handleMove: (mouseAngle: number, hookResult?: InteractiveHookResult) => void;
+		handleDeltaStart: (mouseAngle?: number) => void;
+		handleDeltaMove: (deltaPercentage: number, hookResult?: InteractiveHookResult) => void;
 		handleEnd: () => void;
 		handleCancel: () => void;
 		handleStep: (direction: number) => void;
+		handleSet: (value: number) => void;
+		handleReset: () => void;
+		handleEditStart: () => void;
+		state: { min: number; max: number; editable: boolean; endless: boolean };
 	},
 	config: {
 		readOnly: boolean;
 		useMouseWheel: boolean;
 		interactiveHook?: InteractiveHook;
+		dragMode?: DragMode;
+		dragPixels?: number;
+		resetKeys?: string[];
 	}
 ) {
 	console.debug('[createKnobEventHandlers] Creating event handlers with config:', config);
 
 	/**
-	 * Handles keyboard arrow key events for knob control
+	 * Last pointer position during a linear drag, null when not dragging
+	 */
+	let lastPointer: { x: number; y: number } | null = null;
+
+	/**
+	 * Timestamp of the last touch tap, used to detect double-taps
+	 */
+	let lastTapTime: number | null = null;
+
+	/**
+	 * Whether pointer movement is interpreted linearly rather than as an angle
+	 */
+	const isLinearDrag = () => config.dragMode !== undefined && config.dragMode !== 'circular';
+
+	/**
+	 * Converts the pointer movement since the last event into a percentage delta
+	 * according to the drag mode
+	 */
+	const getDragDelta = (e: PointerEvent | MouseEvent) => {
+		if (!lastPointer) return 0;
+
+		const deltaX = e.clientX - lastPointer.x;
+		const deltaY = lastPointer.y - e.clientY;
+		lastPointer = { x: e.clientX, y: e.clientY };
+
+		const deltaPixels =
+			config.dragMode === 'vertical'
+				? deltaY
+				: config.dragMode === 'horizontal'
+					? deltaX
+					: deltaX + deltaY;
+		const delta = deltaPixels / (config.dragPixels ?? DEFAULT_DRAG_PIXELS);
+		console.debug('[getDragDelta] Calculated delta:', { deltaX, deltaY, deltaPixels, delta });
+		return delta;
+	};
+
+	/**
+	 * Handles keyboard events for knob control, following the WAI-ARIA slider pattern:
+	 * arrows step, PageUp/PageDown jump, Home/End go to the lowest/highest value (except when endless).
+	 * Shift makes steps coarser, Ctrl/Alt makes them finer.
 	 */
 	const handleKeyDown = (e: KeyboardEvent) => {
 		console.debug('[handleKeyDown] Key pressed:', {
@@ -96,8 +176,34 @@ export function createKnobEventHandlers(
 			currentTarget: e.currentTarget,
 			readOnly: config.readOnly
 		});
+		if (e.key === 'Enter' && knobState.state.editable) {
+			if (config.readOnly) {
+				console.debug('[handleKeyDown] Ignoring edit - knob is readonly');
+				return;
+			}
+			e.preventDefault();
+			console.debug('[handleKeyDown] Opening inline editor');
+			knobState.handleEditStart();
+			return;
+		}
+
+		if (config.resetKeys?.includes(e.key)) {
+			if (config.readOnly) {
+				console.debug('[handleKeyDown] Ignoring reset - knob is readonly');
+				return;
+			}
+			if (getInteractiveConfig(KEYBOARD_POSITION, e).readOnly) {
+				console.debug('[handleKeyDown] Ignoring reset - interactive hook returned readonly');
+				return;
+			}
+			e.preventDefault();
+			console.debug('[handleKeyDown] Resetting to default value');
+			knobState.handleReset();
+			return;
+		}
+
 		const direction = DIRECTIONS[e.key];
-		if (!direction) {
+		if (!direction && e.key !== 'Home' && e.key !== 'End') {
 			console.debug('[handleKeyDown] No direction for key:', e.key);
 			return;
 		}
@@ -107,8 +213,26 @@ export function createKnobEventHandlers(
 		}
 
 		e.preventDefault();
-		console.debug('[handleKeyDown] Processing step with direction:', direction);
-		knobState.handleStep(direction);
+
+		if (e.key === 'Home' || e.key === 'End') {
+			if (knobState.state.endless) {
+				console.debug('[handleKeyDown] Ignoring range limit - knob is endless');
+				return;
+			}
+			console.debug('[handleKeyDown] Jumping to range limit:', e.key);
+			const { min, max } = knobState.state;
+			knobState.handleSet(e.key === 'Home' ? Math.min(min, max) : Math.max(min, max));
+			return;
+		}
+
+		const multiplier = e.shiftKey
+			? COARSE_STEP_MULTIPLIER
+			: e.ctrlKey || e.altKey
+				? FINE_STEP_MULTIPLIER
+				: 1;
+
+		console.debug('[handleKeyDown] Processing step with direction:', direction * multiplier);
+		knobState.handleStep(direction * multiplier);
 	};
 
 	/**
@@ -127,11 +251,12 @@ export function createKnobEventHandlers(
 	};
 
 	/**
-	 * Gets interactive configuration from the hook if provided
+	 * Gets interactive configuration from the hook if provided.
+	 * The result is forwarded to the store, which applies `steps` and `sensitivity` per event.
 	 */
 	const getInteractiveConfig = (
 		mousePosition: MousePosition,
-		e: PointerEvent | MouseEvent
+		e: PointerEvent | MouseEvent | KeyboardEvent
 	): InteractiveHookResult => {
 		if (!config.interactiveHook) return {};
 
@@ -169,6 +294,16 @@ export function createKnobEventHandlers(
 		e.preventDefault();
 		e.stopPropagation();
 
+		if ((e as PointerEvent).pointerType === 'touch') {
+			if (lastTapTime !== null && e.timeStamp - lastTapTime < DOUBLE_TAP_DELAY) {
+				console.debug('[handleStart] Double-tap detected, resetting to default value');
+				lastTapTime = null;
+				knobState.handleReset();
+				return;
+			}
+			lastTapTime = e.timeStamp;
+		}
+
 		// Setup global event tracking
 		if (window.PointerEvent) {
 			// Use pointer capture if available
@@ -186,8 +321,16 @@ export function createKnobEventHandlers(
 		// Prevent context menu during drag
 		target.addEventListener('contextmenu', handleContextMenu);
 
+		if (isLinearDrag()) {
+			console.debug('[handleStart] Processing linear start:', config.dragMode);
+			lastPointer = { x: e.clientX, y: e.clientY };
+			// The angle lets a range knob pick the thumb closest to the pointer
+			knobState.handleDeltaStart(mousePosition.mouseAngle);
+			return;
+		}
+
 		console.debug('[handleStart] Processing start with angle:', mousePosition.mouseAngle);
-		knobState.handleStart(mousePosition.mouseAngle);
+		knobState.handleStart(mousePosition.mouseAngle, userConfig);
 	};
 
 	/**
@@ -210,8 +353,14 @@ export function createKnobEventHandlers(
 		e.preventDefault();
 		e.stopPropagation();
 
+		if (isLinearDrag()) {
+			if (!lastPointer) return;
+			knobState.handleDeltaMove(getDragDelta(e), userConfig);
+			return;
+		}
+
 		console.debug('[handleMove] Processing move with angle:', mousePosition.mouseAngle);
-		knobState.handleMove(mousePosition.mouseAngle);
+		knobState.handleMove(mousePosition.mouseAngle, userConfig);
 	};
 
 	/**
@@ -242,6 +391,26 @@ export function createKnobEventHandlers(
 		knobState.handleCancel();
 	};
 
+	/**
+	 * Handles double-click to reset the knob to its default value
+	 */
+	const handleDoubleClick = (e: MouseEvent) => {
+		console.debug('[handleDoubleClick] Double-click detected');
+		if (config.readOnly) {
+			console.debug('[handleDoubleClick] Ignoring reset - knob is readonly');
+			return;
+		}
+
+		const mousePosition = getMousePosition(e.currentTarget as HTMLElement, e);
+		if (getInteractiveConfig(mousePosition, e).readOnly) {
+			console.debug('[handleDoubleClick] Ignoring reset - interactive hook returned readonly');
+			return;
+		}
+
+		e.preventDefault();
+		knobState.handleReset();
+	};
+
 	/**
 	 * Prevents context menu from showing during drag
 	 */
@@ -260,6 +429,8 @@ export function createKnobEventHandlers(
 	 * Cleans up all event listeners
 	 */
 	const cleanupEventListeners = (target: HTMLElement, e?: PointerEvent | MouseEvent) => {
+		lastPointer = null;
+
 		if (window.PointerEvent && e) {
 			const pointerEvent = e as PointerEvent;
 			target.releasePointerCapture(pointerEvent.pointerId);
@@ -280,6 +451,7 @@ export function createKnobEventHandlers(
 		handleStart,
 		handleMove,
 		handleEnd,
-		handleCancel
+		handleCancel,
+		handleDoubleClick
 	};
 }
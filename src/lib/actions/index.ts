@@ -3,3 +3,4 @@
  */
 
 export * from './events.js';
+export * from './knob.svelte.js';
@@ -0,0 +1,278 @@
+import type { ActionReturn } from 'svelte/action';
+import { createKnobState } from '../stores/knob.svelte.js';
+import { createKnobEventHandlers } from './events.js';
+import { getSignedAngleRange } from '../utils/angles.js';
+import type { DragMode, InteractiveHook, KnobDirection, Taper, ValueFormatter } from '../types.js';
+
+/**
+ * Options of a headless knob controller and of the `use:knob` action
+ */
+export interface KnobControllerOptions {
+	min: number;
+	max: number;
+	/** Controlled value, applied when it changes unless the user is dragging */
+	value?: number | null;
+	/** Starting value */
+	initialValue?: number | null;
+	/** Starting angle offset in degrees */
+	angleOffset?: number;
+	/** Total angle range in degrees */
+	angleRange?: number;
+	/** Direction in which the value increases: 'cw' (clockwise) or 'ccw' */
+	direction?: KnobDirection;
+	/** Unlimited rotation beyond the range */
+	multiRotation?: boolean;
+	/** Relative encoder mode without range limits, one turn covers max - min */
+	endless?: boolean;
+	/** Number of discrete steps */
+	steps?: number;
+	/** Whether to snap to steps */
+	snap?: boolean;
+	/** Whether to trigger onChange during interaction */
+	tracking?: boolean;
+	/** Whether the knob is read-only */
+	readOnly?: boolean;
+	/** Whether to enable mouse wheel control */
+	useMouseWheel?: boolean;
+	/** Mapping between dial position and value: 'linear', 'log', 'exp' or a custom function pair */
+	taper?: Taper;
+	/** Value change per arrow key press (defaults to one snap step, or 1/100 of the dial) */
+	keyboardStep?: number;
+	/** How pointer movement changes the value: 'circular', 'vertical', 'horizontal' or 'both' */
+	dragMode?: DragMode;
+	/** Pixels of pointer movement needed to sweep the full range in linear drag modes */
+	dragPixels?: number;
+	/** Value restored by double-click, double-tap or a reset key */
+	defaultValue?: number;
+	/** Keys that reset the value to defaultValue */
+	resetKeys?: string[];
+	/** Value acting as a soft detent for keyboard and wheel */
+	origin?: number;
+	/** Values a drag sticks to within the capture angle */
+	detents?: number[];
+	/** Angle in degrees on each side of a detent within which a drag sticks to it */
+	detentCapture?: number;
+	/** Hook to modify interaction behavior */
+	interactiveHook?: InteractiveHook;
+	/** Formats the value for aria-valuetext */
+	format?: ValueFormatter;
+	/** ARIA label */
+	ariaLabel?: string;
+	/** ARIA labelledby ID */
+	ariaLabelledBy?: string;
+	/** Callback when value changes (after interaction ends) */
+	onChange?: (value: number) => void;
+	/** Callback during interaction */
+	onInteractiveChange?: (value: number) => void;
+	/** Callback when interaction starts */
+	onStart?: () => void;
+	/** Callback when interaction ends */
+	onEnd?: () => void;
+	/** Callback when a drag enters a detent */
+	onDetent?: (value: number) => void;
+	/** Callback with each relative change in endless mode, in value units and in turns */
+	onDelta?: (deltaValue: number, deltaTurns: number) => void;
+}
+
+/**
+ * Angle in degrees on each side of a detent within which a drag sticks to it
+ */
+const DEFAULT_DETENT_CAPTURE = 5;
+
+/**
+ * ARIA and focus attributes managed on the attached element
+ */
+const MANAGED_ATTRIBUTES = [
+	'role',
+	'tabindex',
+	'aria-valuemin',
+	'aria-valuemax',
+	'aria-valuenow',
+	'aria-valuetext',
+	'aria-readonly',
+	'aria-label',
+	'aria-labelledby'
+];
+
+/**
+ * Gets the store configuration that follows the options after creation
+ * @param options - Controller options
+ */
+const getStoreConfiguration = (options: KnobControllerOptions) => ({
+	min: options.min,
+	max: options.max,
+	multiRotation: options.multiRotation ?? false,
+	endless: options.endless ?? false,
+	angleOffset: options.angleOffset ?? 0,
+	angleRange: getSignedAngleRange(options.angleRange ?? 360, options.direction),
+	steps: options.snap ? options.steps : undefined,
+	tracking: options.tracking ?? true,
+	taper: options.taper ?? 'linear',
+	keyboardStep: options.keyboardStep,
+	defaultValue: options.defaultValue,
+	origin: options.origin,
+	detents: options.detents,
+	detentCapture: options.detentCapture ?? DEFAULT_DETENT_CAPTURE
+});
+
+/**
+ * Creates a headless knob: the state and interaction logic of `Knob` without any markup.
+ * Attach it to any element (a canvas, an HTML div, an overlay) with `use:controller.attach`
+ * to get pointer, keyboard and wheel handling and the slider ARIA attributes.
+ * The state is a reactive object, so it can be read directly in markup and effects.
+ * @param options - Controller options
+ * @returns Object containing the state, update functions and the attach action
+ */
+export function createKnobController(options: KnobControllerOptions) {
+	console.debug('[createKnobController] Initializing with options:', options);
+
+	let current = $state.raw(options);
+
+	// Callbacks read the current options so updates apply to the next change
+	const knobState = createKnobState({
+		...getStoreConfiguration(options),
+		initialValue: options.initialValue ?? options.value ?? null,
+		size: 0,
+		readOnly: options.readOnly ?? false,
+		useMouseWheel: options.useMouseWheel ?? true,
+		onChange: (value) => current.onChange?.(value),
+		onInteractiveChange: (value) => current.onInteractiveChange?.(value),
+		onStart: () => current.onStart?.(),
+		onEnd: () => current.onEnd?.(),
+		onDetent: (value) => current.onDetent?.(value),
+		onDelta: (deltaValue, deltaTurns) => current.onDelta?.(deltaValue, deltaTurns)
+	});
+
+	const handlers = createKnobEventHandlers(knobState, {
+		get readOnly() {
+			return current.readOnly ?? false;
+		},
+		get useMouseWheel() {
+			return current.useMouseWheel ?? true;
+		},
+		get interactiveHook() {
+			return current.interactiveHook;
+		},
+		get dragMode() {
+			return current.dragMode;
+		},
+		get dragPixels() {
+			return current.dragPixels;
+		},
+		get resetKeys() {
+			return current.resetKeys ?? ['Delete', 'Backspace'];
+		}
+	});
+
+	/**
+	 * Sets the value from outside without firing callbacks. Ignored while the user is dragging.
+	 * @param value - New value
+	 */
+	function setValue(value: number) {
+		if (knobState.state.isActive) return;
+		knobState.setValue(value);
+	}
+
+	/**
+	 * Applies new options, e.g. from the `update` of an action
+	 * @param options - Complete set of options replacing the previous ones
+	 */
+	function update(options: KnobControllerOptions) {
+		console.debug('[update] Updating controller options:', options);
+		const previousValue = current.value;
+		current = options;
+		knobState.configure(getStoreConfiguration(options));
+
+		if (options.value !== undefined && options.value !== null && options.value !== previousValue) {
+			setValue(options.value);
+		}
+	}
+
+	/**
+	 * Gets the ARIA and focus attributes for the current state
+	 */
+	function getAttributes(): Record<string, string | null> {
+		const { min, max, value, endless } = knobState.state;
+		const { format, readOnly, ariaLabel, ariaLabelledBy } = current;
+		return {
+			role: 'slider',
+			tabindex: '0',
+			'aria-valuemin': endless ? null : String(Math.min(min, max)),
+			'aria-valuemax': endless ? null : String(Math.max(min, max)),
+			'aria-valuenow': value === null ? null : String(value),
+			'aria-valuetext': format && value !== null ? format(value) : null,
+			'aria-readonly': readOnly ? 'true' : null,
+			'aria-label': ariaLabel ?? null,
+			'aria-labelledby': ariaLabelledBy ?? null
+		};
+	}
+
+	/**
+	 * Svelte action giving an element the knob interactions and keeping its ARIA
+	 * attributes in sync with the state
+	 * @param node - Element receiving the interactions, whose center is the knob center
+	 */
+	function attach(node: HTMLElement): ActionReturn {
+		console.debug('[attach] Attaching knob controller to:', node);
+
+		const { handleKeyDown, handleWheel, handleStart, handleDoubleClick } = handlers;
+		// Move, end and cancel listeners are added by handleStart for the duration of a drag
+		node.addEventListener('keydown', handleKeyDown);
+		node.addEventListener('wheel', handleWheel, { passive: false });
+		node.addEventListener('pointerdown', handleStart);
+		node.addEventListener('dblclick', handleDoubleClick);
+
+		const previousTouchAction = node.style.touchAction;
+		node.style.touchAction = 'none';
+
+		const cleanupEffects = $effect.root(() => {
+			$effect(() => {
+				for (const [name, value] of Object.entries(getAttributes())) {
+					if (value === null) node.removeAttribute(name);
+					else node.setAttribute(name, value);
+				}
+			});
+		});
+
+		return {
+			destroy() {
+				console.debug('[attach] Detaching knob controller');
+				cleanupEffects();
+				node.removeEventListener('keydown', handleKeyDown);
+				node.removeEventListener('wheel', handleWheel);
+				node.removeEventListener('pointerdown', handleStart);
+				node.removeEventListener('dblclick', handleDoubleClick);
+				node.style.touchAction = previousTouchAction;
+				MANAGED_ATTRIBUTES.forEach((name) => node.removeAttribute(name));
+			}
+		};
+	}
+
+	return {
+		get state() {
+			return knobState.state;
+		},
+		setValue,
+		update,
+		attach
+	};
+}
+
+/**
+ * Svelte action turning any element into a knob (`use:knob={options}`).
+ * Use `createKnobController` instead to read the state in markup.
+ * @param node - Element receiving the interactions
+ * @param options - Controller options, updated when they change
+ */
+export function knob(
+	node: HTMLElement,
+	options: KnobControllerOptions
+): ActionReturn<KnobControllerOptions> {
+	const controller = createKnobController(options);
+	const { destroy } = controller.attach(node);
+
+	return {
+		update: (newOptions) => controller.update(newOptions),
+		destroy
+	};
+}
@@ -0,0 +1,100 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { flushSync } from 'svelte';
+import { createKnobController, knob } from './knob.svelte.js';
+
+afterEach(() => {
+	document.body.innerHTML = '';
+});
+
+/**
+ * Creates an element in the document
+ */
+const createElement = () => {
+	const element = document.createElement('div');
+	document.body.append(element);
+	return element;
+};
+
+/**
+ * Presses a key on an element
+ */
+const press = (element: HTMLElement, key: string) => {
+	element.dispatchEvent(new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true }));
+	flushSync();
+};
+
+describe('createKnobController', () => {
+	it('gives an attached element the slider role and keeps its ARIA attributes in sync', () => {
+		const element = createElement();
+		const controller = createKnobController({
+			min: 0,
+			max: 10,
+			initialValue: 5,
+			ariaLabel: 'Gain',
+			format: (value) => `${value} dB`
+		});
+		controller.attach(element);
+		flushSync();
+
+		expect(element.getAttribute('role')).toBe('slider');
+		expect(element.getAttribute('tabindex')).toBe('0');
+		expect(element.getAttribute('aria-label')).toBe('Gain');
+		expect(element.getAttribute('aria-valuemin')).toBe('0');
+		expect(element.getAttribute('aria-valuemax')).toBe('10');
+		expect(element.getAttribute('aria-valuetext')).toBe('5 dB');
+
+		press(element, 'End');
+		expect(element.getAttribute('aria-valuenow')).toBe('10');
+		expect(controller.state.value).toBe(10);
+	});
+
+	it('calls the latest callbacks', () => {
+		const element = createElement();
+		const onChange = vi.fn();
+		const controller = createKnobController({ min: 0, max: 10, initialValue: 5 });
+		controller.attach(element);
+		controller.update({ min: 0, max: 10, onChange });
+		press(element, 'Home');
+
+		expect(onChange).toHaveBeenCalledWith(0);
+	});
+
+	it('applies a changed value without calling back', () => {
+		const onChange = vi.fn();
+		const controller = createKnobController({ min: 0, max: 10, value: 5, onChange });
+		controller.update({ min: 0, max: 10, value: 7, onChange });
+
+		expect(controller.state.value).toBe(7);
+		expect(onChange).not.toHaveBeenCalled();
+	});
+
+	it('ignores keys while read-only', () => {
+		const element = createElement();
+		const controller = createKnobController({ min: 0, max: 10, initialValue: 5, readOnly: true });
+		controller.attach(element);
+		press(element, 'End');
+
+		expect(controller.state.value).toBe(5);
+		expect(element.getAttribute('aria-readonly')).toBe('true');
+	});
+});
+
+describe('knob', () => {
+	it('updates the range and cleans up the element when destroyed', () => {
+		const element = createElement();
+		const action = knob(element, { min: 0, max: 10, initialValue: 5 });
+		flushSync();
+		action.update?.({ min: 0, max: 4, initialValue: 5 });
+		flushSync();
+		expect(element.getAttribute('aria-valuemax')).toBe('4');
+		expect(element.getAttribute('aria-valuenow')).toBe('4');
+
+		action.destroy?.();
+		expect(element.hasAttribute('role')).toBe(false);
+		expect(element.hasAttribute('aria-valuenow')).toBe(false);
+
+		press(element, 'Home');
+		expect(element.hasAttribute('aria-valuenow')).toBe(false);
+	});
+});
@@ -0,0 +1,94 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from 'vitest';
+import { flushSync, mount, unmount } from 'svelte';
+import Arc from './Arc.svelte';
+import type { ComponentProps } from 'svelte';
+import type { KnobContext } from '../types.js';
+
+let component: ReturnType<typeof mount> | null = null;
+
+afterEach(() => {
+	if (component) unmount(component);
+	component = null;
+	document.body.innerHTML = '';
+});
+
+/**
+ * Mounts an arc with a background in a full-circle knob from -1 to 1
+ * @param percentage - Position of the knob
+ * @param props - Arc props besides the width and classes
+ * @param config - Knob configuration besides the defaults
+ */
+const mountArc = (
+	percentage: number,
+	props: Partial<ComponentProps<typeof Arc>> = {},
+	config: Partial<KnobContext['config']> = {}
+) => {
+	const svg = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
+	document.body.append(svg);
+	const context = {
+		state: { percentage },
+		displayPercentage: percentage,
+		config: {
+			size: 100,
+			angleOffset: 0,
+			angleRange: 360,
+			min: -1,
+			max: 1,
+			readOnly: false,
+			taper: 'linear',
+			...config
+		}
+	} as unknown as KnobContext;
+	component = mount(Arc, {
+		target: svg,
+		props: { arcWidth: 10, background: 'gray', class: 'value', activeClass: 'rest', ...props },
+		context: new Map([['knob', context]])
+	});
+	flushSync();
+
+	const [x, y] = (svg.querySelector('.value')?.getAttribute('d') ?? '')
+		.slice(1)
+		.split(' ')[0]
+		.split(',')
+		.map(Number);
+	return {
+		start: { x, y },
+		backgrounds: svg.querySelectorAll('.rest').length,
+		zones: [...svg.querySelectorAll('.zone')].map((path) => path.getAttribute('style'))
+	};
+};
+
+describe('Arc', () => {
+	it('fills from the start of the range without an origin', () => {
+		const { start, backgrounds } = mountArc(0.75);
+		// The range starts at the top of the knob
+		expect(start.x).toBeCloseTo(50);
+		expect(start.y).toBeCloseTo(0);
+		expect(backgrounds).toBe(1);
+	});
+
+	it('fills from the origin of the knob, with background on both sides', () => {
+		const { start, backgrounds } = mountArc(0.75, {}, { origin: 0 });
+		// Zero is at the bottom of the knob
+		expect(start.x).toBeCloseTo(50);
+		expect(start.y).toBeCloseTo(100);
+		expect(backgrounds).toBe(2);
+	});
+
+	it('prefers originPercentage over the origin value', () => {
+		const { start } = mountArc(0.5, { origin: 0, originPercentage: 0.25 });
+		expect(start.x).toBeCloseTo(100);
+		expect(start.y).toBeCloseTo(50);
+	});
+
+	it('draws a band for each zone', () => {
+		const { zones } = mountArc(0.5, {
+			zones: [
+				{ from: -1, to: 0.5, color: 'green', class: 'zone' },
+				{ from: 0.5, to: 1, color: 'red', class: 'zone' }
+			]
+		});
+		expect(zones).toEqual(['fill: green', 'fill: red']);
+	});
+});
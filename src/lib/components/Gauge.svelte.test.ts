@@ -0,0 +1,94 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { flushSync, mount, unmount } from 'svelte';
+import type { ComponentProps } from 'svelte';
+import Gauge from './Gauge.svelte';
+
+let component: ReturnType<typeof mount> | null = null;
+
+afterEach(() => {
+	if (component) unmount(component);
+	component = null;
+	document.body.innerHTML = '';
+});
+
+/**
+ * Mounts a gauge whose props can be changed afterwards
+ * @param initialProps - Gauge props besides the range and size
+ */
+const mountGauge = (initialProps: Partial<ComponentProps<typeof Gauge>> = {}) => {
+	const props = $state<ComponentProps<typeof Gauge>>({
+		min: 0,
+		max: 100,
+		value: 0,
+		size: 100,
+		...initialProps
+	});
+	component = mount(Gauge, { target: document.body, props });
+	flushSync();
+
+	const meter = document.querySelector('[role="meter"]') as HTMLElement;
+	return { props, meter };
+};
+
+describe('Gauge', () => {
+	it('renders a meter that is not focusable', () => {
+		const { meter } = mountGauge({ value: 30, format: (value) => `${value} dB` });
+
+		expect(meter.getAttribute('aria-valuenow')).toBe('30');
+		expect(meter.getAttribute('aria-valuetext')).toBe('30 dB');
+		expect(meter.hasAttribute('tabindex')).toBe(false);
+		expect(document.querySelector('[role="slider"]')).toBeNull();
+	});
+
+	it('flags an overload and reports it', () => {
+		const onOverload = vi.fn();
+		const { props, meter } = mountGauge({ overload: 90, onOverload });
+		expect(meter.hasAttribute('data-overloaded')).toBe(false);
+
+		props.value = 95;
+		flushSync();
+		expect(meter.getAttribute('aria-valuenow')).toBe('95');
+		expect(meter.hasAttribute('data-overloaded')).toBe(true);
+		expect(onOverload).toHaveBeenCalledWith(95);
+	});
+
+	it('waits for a held overload instead of updating every frame', () => {
+		vi.useFakeTimers();
+		const requestFrame = vi.spyOn(window, 'requestAnimationFrame');
+		try {
+			const { props, meter } = mountGauge({
+				overload: 90,
+				attack: 0,
+				release: 0,
+				peakHold: 500
+			});
+			props.value = 95;
+			flushSync();
+			props.value = 20;
+			flushSync();
+			vi.advanceTimersByTime(100);
+			flushSync();
+			expect(meter.getAttribute('aria-valuenow')).toBe('20');
+			expect(meter.hasAttribute('data-overloaded')).toBe(true);
+
+			requestFrame.mockClear();
+			vi.advanceTimersByTime(300);
+			expect(requestFrame).not.toHaveBeenCalled();
+
+			vi.advanceTimersByTime(200);
+			flushSync();
+			expect(requestFrame).toHaveBeenCalledOnce();
+			expect(meter.hasAttribute('data-overloaded')).toBe(false);
+		} finally {
+			requestFrame.mockRestore();
+			vi.useRealTimers();
+		}
+	});
+
+	it('orders the ARIA bounds of a range running from high to low', () => {
+		const { meter } = mountGauge({ min: 0, max: -100, value: -20 });
+		expect(meter.getAttribute('aria-valuemin')).toBe('-100');
+		expect(meter.getAttribute('aria-valuemax')).toBe('0');
+	});
+});
@@ -0,0 +1,448 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { flushSync, mount, unmount } from 'svelte';
+import type { ComponentProps } from 'svelte';
+import Knob from './Knob.svelte';
+import KnobWithPointer from './KnobWithPointer.test.svelte';
+import { createKnobHistory } from '../stores/history.svelte.js';
+import { createMidiMapper } from '../stores/midi.svelte.js';
+
+// jsdom has no matchMedia, which svelte/motion reads for prefersReducedMotion
+const media = vi.hoisted(() => {
+	const media = { reducedMotion: false };
+	window.matchMedia = (query: string) =>
+		({
+			get matches() {
+				return media.reducedMotion && query.includes('reduce');
+			},
+			media: query,
+			addEventListener: () => {},
+			removeEventListener: () => {}
+		}) as unknown as MediaQueryList;
+	return media;
+});
+
+let component: ReturnType<typeof mount> | null = null;
+
+afterEach(() => {
+	if (component) unmount(component);
+	component = null;
+	document.body.innerHTML = '';
+	media.reducedMotion = false;
+});
+
+/**
+ * Mounts a knob whose props can be changed afterwards
+ * @param initialProps - Knob props besides the range and size
+ */
+const mountKnob = (initialProps: Partial<ComponentProps<typeof Knob>> = {}) => {
+	const props = $state<ComponentProps<typeof Knob>>({
+		min: 0,
+		max: 100,
+		size: 100,
+		...initialProps
+	});
+	component = mount(Knob, { target: document.body, props });
+	flushSync();
+
+	const knob = document.querySelector('[role="slider"]') as HTMLElement;
+	/**
+	 * Presses a key on the knob
+	 */
+	const press = (key: string) => {
+		knob.dispatchEvent(new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true }));
+		flushSync();
+	};
+	return { props, knob, press };
+};
+
+// jsdom has no pointer events
+if (!window.PointerEvent) {
+	window.PointerEvent = class extends MouseEvent {
+		pointerId: number;
+		pointerType: string;
+		constructor(type: string, init: PointerEventInit = {}) {
+			super(type, init);
+			this.pointerId = init.pointerId ?? 1;
+			this.pointerType = init.pointerType ?? 'mouse';
+		}
+	} as unknown as typeof PointerEvent;
+	HTMLElement.prototype.setPointerCapture = () => {};
+	HTMLElement.prototype.releasePointerCapture = () => {};
+}
+
+/**
+ * Dispatches a mouse pointer event at an angle around the knob (0 at the top, clockwise)
+ */
+const pointerAt = (target: EventTarget, type: string, angle: number) => {
+	const radians = (angle * Math.PI) / 180;
+	target.dispatchEvent(
+		new PointerEvent(type, {
+			clientX: Math.sin(radians) * 40,
+			clientY: -Math.cos(radians) * 40,
+			button: 0,
+			bubbles: true,
+			cancelable: true
+		})
+	);
+	flushSync();
+};
+
+describe('Knob props', () => {
+	it('follows a range changed after mount', () => {
+		const { props, knob } = mountKnob({ initialValue: 80 });
+		props.max = 50;
+		flushSync();
+
+		expect(knob.getAttribute('aria-valuemax')).toBe('50');
+		expect(knob.getAttribute('aria-valuenow')).toBe('50');
+	});
+
+	it('stops keyboard edits once made read-only', () => {
+		const { props, knob, press } = mountKnob({ initialValue: 10 });
+		press('ArrowRight');
+		expect(knob.getAttribute('aria-valuenow')).toBe('11');
+
+		props.readOnly = true;
+		flushSync();
+		press('ArrowRight');
+		expect(knob.getAttribute('aria-readonly')).toBe('true');
+		expect(knob.getAttribute('aria-valuenow')).toBe('11');
+	});
+});
+
+describe('Knob reset', () => {
+	it('restores defaultValue on double-click and reports it to the bound value', () => {
+		const onChange = vi.fn();
+		const { knob } = mountKnob({ initialValue: 70, defaultValue: 25, onChange });
+		knob.dispatchEvent(new MouseEvent('dblclick', { bubbles: true, cancelable: true }));
+		flushSync();
+
+		expect(knob.getAttribute('aria-valuenow')).toBe('25');
+		expect(onChange).toHaveBeenCalledWith(25);
+	});
+
+	it('restores defaultValue with Delete or Backspace', () => {
+		const { knob, press } = mountKnob({ initialValue: 70, defaultValue: 25 });
+		press('Backspace');
+		expect(knob.getAttribute('aria-valuenow')).toBe('25');
+	});
+});
+
+describe('Knob format', () => {
+	it('announces the formatted value as it changes', () => {
+		const { knob, press } = mountKnob({ initialValue: 10, format: (value) => `${value} dB` });
+		expect(knob.getAttribute('aria-valuetext')).toBe('10 dB');
+
+		press('ArrowRight');
+		expect(knob.getAttribute('aria-valuetext')).toBe('11 dB');
+	});
+
+	it('prefers an explicit ariaValueText', () => {
+		const { knob } = mountKnob({
+			initialValue: 10,
+			format: (value) => `${value} dB`,
+			ariaValueText: 'quiet'
+		});
+		expect(knob.getAttribute('aria-valuetext')).toBe('quiet');
+	});
+});
+
+describe('Knob setpoint mode', () => {
+	it('keeps the edited target while actual values stream in', () => {
+		const { props, knob, press } = mountKnob({ target: 40, actual: 0 });
+		press('ArrowRight');
+		for (const actual of [5, 10, 15]) {
+			props.actual = actual;
+			flushSync();
+		}
+
+		expect(knob.getAttribute('aria-valuenow')).toBe('41');
+		expect(props.target).toBe(41);
+	});
+
+	it('calls onSettled when actual reaches the target', () => {
+		const onSettled = vi.fn();
+		const { props } = mountKnob({ target: 40, actual: 0, settleTolerance: 0.5, onSettled });
+		props.actual = 39.8;
+		flushSync();
+		expect(onSettled).toHaveBeenCalledWith(40);
+	});
+});
+
+describe('Knob detents', () => {
+	it('vibrates and calls onDetent when a drag enters a detent', () => {
+		const vibrate = vi.fn();
+		Object.defineProperty(navigator, 'vibrate', { value: vibrate, configurable: true });
+		const onDetent = vi.fn();
+		const { knob } = mountKnob({
+			initialValue: 0,
+			angleOffset: 0,
+			angleRange: 360,
+			detents: [50],
+			haptics: true,
+			onDetent
+		});
+		pointerAt(knob, 'pointerdown', 170);
+		pointerAt(knob, 'pointermove', 178);
+		pointerAt(knob, 'pointerup', 178);
+
+		expect(knob.getAttribute('aria-valuenow')).toBe('50');
+		expect(onDetent).toHaveBeenCalledWith(50);
+		expect(vibrate).toHaveBeenCalledOnce();
+		Reflect.deleteProperty(navigator, 'vibrate');
+	});
+});
+
+/**
+ * Mounts a knob with a pointer over a full turn whose props can be changed afterwards
+ * @param initialProps - Knob props besides the range, size and angles
+ */
+const mountKnobWithPointer = (initialProps: Partial<ComponentProps<typeof Knob>> = {}) => {
+	const props = $state<ComponentProps<typeof Knob>>({
+		min: 0,
+		max: 100,
+		size: 100,
+		angleOffset: 0,
+		angleRange: 360,
+		...initialProps
+	});
+	component = mount(KnobWithPointer, { target: document.body, props });
+	flushSync();
+
+	const knob = document.querySelector('[role="slider"]') as HTMLElement;
+	/**
+	 * Reads the pointer rotation in degrees
+	 */
+	const rotation = () => {
+		const transform = document.querySelector('g')?.getAttribute('transform') ?? '';
+		return Number(/rotate\((\S+)/.exec(transform)?.[1]);
+	};
+	return { props, knob, rotation };
+};
+
+/**
+ * Waits for animation frames to run
+ */
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('Knob animate', () => {
+	it('moves the display gradually when the value changes from outside', async () => {
+		const { props, knob, rotation } = mountKnobWithPointer({
+			value: 0,
+			animate: { type: 'tween', duration: 50 }
+		});
+		props.value = 50;
+		flushSync();
+
+		expect(knob.getAttribute('aria-valuenow')).toBe('50');
+		expect(rotation()).toBeLessThan(180);
+
+		await wait(150);
+		flushSync();
+		expect(rotation()).toBeCloseTo(180);
+	});
+
+	it('shows keyboard changes immediately', () => {
+		const { knob, rotation } = mountKnobWithPointer({
+			value: 0,
+			animate: { type: 'tween', duration: 50 }
+		});
+		knob.dispatchEvent(new KeyboardEvent('keydown', { key: 'End', bubbles: true }));
+		flushSync();
+
+		expect(rotation()).toBeCloseTo(360);
+	});
+
+	it('jumps when the user prefers reduced motion', () => {
+		media.reducedMotion = true;
+		const { props, rotation } = mountKnobWithPointer({ value: 0, animate: true });
+		props.value = 50;
+		flushSync();
+
+		expect(rotation()).toBeCloseTo(180);
+	});
+});
+
+describe('Knob direction', () => {
+	it('rotates children counter-clockwise', () => {
+		const { rotation } = mountKnobWithPointer({ value: 25, direction: 'ccw' });
+		expect(rotation()).toBeCloseTo(-90);
+	});
+
+	it('orders the ARIA bounds of a range running from high to low', () => {
+		const { knob } = mountKnob({ min: 100, max: 0, initialValue: 30 });
+		expect(knob.getAttribute('aria-valuemin')).toBe('0');
+		expect(knob.getAttribute('aria-valuemax')).toBe('100');
+	});
+});
+
+/**
+ * Mounts a knob named gain in a form
+ * @param props - Knob props besides the name, range and size
+ */
+const mountInForm = (props: Partial<ComponentProps<typeof Knob>> = {}) => {
+	const form = document.createElement('form');
+	document.body.append(form);
+	component = mount(Knob, {
+		target: form,
+		props: { name: 'gain', min: 0, max: 100, size: 100, ...props }
+	});
+	flushSync();
+
+	const knob = form.querySelector('[role="slider"]') as HTMLElement;
+	const input = form.querySelector('input') as HTMLInputElement;
+	/**
+	 * Presses a key on the knob
+	 */
+	const press = (key: string) => {
+		knob.dispatchEvent(new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true }));
+		flushSync();
+	};
+	/**
+	 * Resets the form
+	 */
+	const reset = () => {
+		form.reset();
+		flushSync();
+	};
+	return { form, knob, input, press, reset };
+};
+
+describe('Knob form participation', () => {
+	it('submits the serialized value', () => {
+		const { form, press } = mountInForm({ initialValue: 30, serialize: (value) => `${value}%` });
+		expect(new FormData(form).get('gain')).toBe('30%');
+
+		press('ArrowRight');
+		expect(new FormData(form).get('gain')).toBe('31%');
+	});
+
+	it('blocks submission of a required knob until its value is edited', () => {
+		const { form, input, press } = mountInForm({ required: true });
+		expect(input.value).toBe('');
+		expect(form.checkValidity()).toBe(false);
+
+		press('ArrowRight');
+		expect(input.value).toBe('1');
+		expect(form.checkValidity()).toBe(true);
+	});
+
+	it('passes null to validate while the knob has no value', () => {
+		const values: (number | null)[] = [];
+		const { press } = mountInForm({
+			validate: (value: number | null) => {
+				values.push(value);
+				return '';
+			}
+		});
+		press('ArrowRight');
+		expect(values).toEqual([null, 1]);
+	});
+
+	it('empties the input again on reset when the knob started without a value', () => {
+		const { form, knob, input, press, reset } = mountInForm({ required: true });
+		press('ArrowRight');
+		press('ArrowRight');
+		reset();
+
+		expect(input.value).toBe('');
+		expect(knob.getAttribute('aria-valuenow')).toBe('0');
+		expect(form.checkValidity()).toBe(false);
+	});
+
+	it('restores the starting value on reset', () => {
+		const { knob, input, press, reset } = mountInForm({ initialValue: 30 });
+		press('ArrowRight');
+		expect(input.value).toBe('31');
+
+		reset();
+		expect(input.value).toBe('30');
+		expect(knob.getAttribute('aria-valuenow')).toBe('30');
+	});
+
+	it('keeps the value in the input when a knob at its starting value is reset', () => {
+		const { input, reset } = mountInForm({ initialValue: 30 });
+		reset();
+		expect(input.value).toBe('30');
+	});
+
+	it('leaves a disabled knob out of the tab order, the submission and editing', () => {
+		const { form, knob, press } = mountInForm({ initialValue: 30, disabled: true });
+		press('ArrowRight');
+
+		expect(knob.getAttribute('tabindex')).toBe('-1');
+		expect(knob.getAttribute('aria-disabled')).toBe('true');
+		expect(knob.getAttribute('aria-valuenow')).toBe('30');
+		expect(new FormData(form).has('gain')).toBe(false);
+	});
+
+	it('reports a validation message on a failed submit until the value is valid', () => {
+		const onInvalid = vi.fn();
+		const { form, knob, press } = mountInForm({
+			initialValue: 30,
+			validate: (value) => (value !== null && value > 30 ? 'Too loud' : ''),
+			onInvalid
+		});
+		expect(form.checkValidity()).toBe(true);
+
+		press('ArrowRight');
+		expect(form.checkValidity()).toBe(false);
+		flushSync();
+		expect(onInvalid).toHaveBeenCalledWith('Too loud');
+		expect(knob.getAttribute('aria-invalid')).toBe('true');
+
+		press('ArrowLeft');
+		expect(knob.hasAttribute('aria-invalid')).toBe(false);
+	});
+});
+
+describe('Knob history', () => {
+	it('records key bursts of each knob and undoes them into the bound value', () => {
+		const history = createKnobHistory();
+		const onChange = vi.fn();
+		const { props, press } = mountKnob({ value: 10, history, historyId: 'gain', onChange });
+		press('ArrowRight');
+		press('ArrowRight');
+		expect(history.state.past).toEqual([
+			expect.objectContaining({ id: 'gain', before: 10, after: 12 })
+		]);
+
+		history.undo();
+		flushSync();
+		expect(props.value).toBe(10);
+		expect(onChange).toHaveBeenLastCalledWith(10);
+	});
+
+	it('unregisters when unmounted', () => {
+		const history = createKnobHistory();
+		const { press } = mountKnob({ value: 10, history });
+		press('End');
+		if (component) unmount(component);
+		component = null;
+
+		expect(history.undo()).toBe(false);
+	});
+});
+
+describe('Knob MIDI', () => {
+	it('selects the knob clicked in learn mode and sends values set on screen', () => {
+		const sent: number[][] = [];
+		const midi = createMidiMapper({
+			transport: { subscribe: () => () => {}, send: (data) => sent.push(data) }
+		});
+		const { knob, press } = mountKnob({ initialValue: 0, midi, midiId: 'gain' });
+		midi.startLearning();
+		pointerAt(knob, 'pointerdown', 0);
+		pointerAt(knob, 'pointerup', 0);
+
+		expect(midi.state.learnTarget).toBe('gain');
+		expect(knob.getAttribute('data-midi-learning')).toBe('true');
+
+		midi.stopLearning();
+		midi.map('gain', { channel: 0, controller: 7, format: 'cc7' });
+		press('End');
+		expect(knob.hasAttribute('data-midi-learning')).toBe(false);
+		expect(sent).toEqual([[0xb0, 7, 127]]);
+	});
+});
@@ -0,0 +1,88 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from 'vitest';
+import { flushSync, mount, unmount } from 'svelte';
+import Label from './Label.svelte';
+import type { ComponentProps } from 'svelte';
+import type { KnobContext } from '../types.js';
+
+let component: ReturnType<typeof mount> | null = null;
+
+afterEach(() => {
+	if (component) unmount(component);
+	component = null;
+	document.body.innerHTML = '';
+});
+
+/**
+ * Mounts a label in a full-circle log knob from 20 to 20000
+ * @param props - Label props besides the radius
+ * @param config - Knob configuration besides the defaults
+ * @returns Text, offset of the label from the center and text transform
+ */
+const mountLabel = (
+	props: Partial<ComponentProps<typeof Label>>,
+	config: Partial<KnobContext['config']> = {}
+) => {
+	const svg = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
+	document.body.append(svg);
+	const context = {
+		state: { percentage: null },
+		displayPercentage: null,
+		config: {
+			size: 100,
+			angleOffset: 0,
+			angleRange: 360,
+			min: 20,
+			max: 20000,
+			readOnly: false,
+			taper: 'log',
+			...config
+		}
+	} as unknown as KnobContext;
+	component = mount(Label, {
+		target: svg,
+		props: { radius: 40, ...props },
+		context: new Map([['knob', context]])
+	});
+	flushSync();
+
+	const [, x, y] =
+		/translate\(\s*(\S+)\s+(\S+)\)/.exec(svg.querySelector('g')?.getAttribute('transform') ?? '') ??
+		[];
+	const text = svg.querySelector('text');
+	return {
+		text: text?.textContent?.trim(),
+		x: Number(x),
+		y: Number(y),
+		textTransform: text?.getAttribute('transform') ?? null
+	};
+};
+
+describe('Label', () => {
+	it('places a value at its tapered position', () => {
+		const { x, y } = mountLabel({ value: 632.455532, label: 'mid' });
+		expect(x).toBeCloseTo(0);
+		expect(y).toBeCloseTo(40);
+	});
+
+	it('shows the formatted value when no label is given', () => {
+		const { text } = mountLabel({ value: 2000 }, { format: (value) => `${value} Hz` });
+		expect(text).toBe('2000 Hz');
+	});
+
+	it('shows the value at a percentage position', () => {
+		const { text, y } = mountLabel({ percentage: 0 });
+		expect(text).toBe('20');
+		expect(y).toBeCloseTo(-40);
+	});
+
+	it('keeps the text upright by default', () => {
+		const { textTransform } = mountLabel({ percentage: 0.25 });
+		expect(textTransform).toBeNull();
+	});
+
+	it('rotates radial text with its angle', () => {
+		const { textTransform } = mountLabel({ percentage: 0.25, orientation: 'radial' });
+		expect(textTransform).toBe('rotate(90 50 50)');
+	});
+});
@@ -0,0 +1,130 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { flushSync, mount, unmount } from 'svelte';
+import OptionKnob from './OptionKnob.svelte';
+import type { ComponentProps } from 'svelte';
+
+// jsdom has no matchMedia, which svelte/motion reads for prefersReducedMotion
+vi.hoisted(() => {
+	window.matchMedia ??= (query: string) =>
+		({
+			matches: false,
+			media: query,
+			addEventListener: () => {},
+			removeEventListener: () => {}
+		}) as unknown as MediaQueryList;
+});
+
+let component: ReturnType<typeof mount> | null = null;
+
+afterEach(() => {
+	if (component) unmount(component);
+	component = null;
+	document.body.innerHTML = '';
+});
+
+/**
+ * Mounts an option knob over 1/2/4/8/16 whose props can be changed afterwards
+ * @param initialProps - Option knob props besides the options and size
+ */
+const mountOptionKnob = (initialProps: Partial<ComponentProps<typeof OptionKnob>> = {}) => {
+	const props = $state<ComponentProps<typeof OptionKnob>>({
+		options: [1, 2, 4, 8, 16],
+		size: 100,
+		...initialProps
+	});
+	component = mount(OptionKnob, { target: document.body, props });
+	flushSync();
+
+	const knob = document.querySelector('[role="slider"]') as HTMLElement;
+	/**
+	 * Presses a key on the knob
+	 */
+	const press = (key: string) => {
+		knob.dispatchEvent(new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true }));
+		flushSync();
+	};
+	return { props, knob, press };
+};
+
+describe('OptionKnob', () => {
+	it('moves from one option to the next and binds the option itself', () => {
+		const onChange = vi.fn();
+		const { props, knob, press } = mountOptionKnob({ value: 2, onChange });
+		expect(knob.getAttribute('aria-valuenow')).toBe('1');
+
+		press('ArrowRight');
+		expect(props.value).toBe(4);
+		expect(onChange).toHaveBeenCalledWith(4);
+
+		press('End');
+		expect(props.value).toBe(16);
+	});
+
+	it('announces the label of the option', () => {
+		const { knob } = mountOptionKnob({
+			options: ['sine', 'square', 'saw'],
+			initialValue: 'saw',
+			getLabel: (option) => `${option} wave`
+		});
+		expect(knob.getAttribute('aria-valuetext')).toBe('saw wave');
+	});
+
+	it('renders a label per option unless labels is false', () => {
+		mountOptionKnob();
+		expect(document.querySelectorAll('text')).toHaveLength(5);
+		unmount(component!);
+
+		mountOptionKnob({ labels: false });
+		expect(document.querySelectorAll('text')).toHaveLength(0);
+	});
+
+	it('follows a value set from outside', () => {
+		const { props, knob } = mountOptionKnob({ value: 1 });
+		props.value = 8;
+		flushSync();
+		expect(knob.getAttribute('aria-valuenow')).toBe('3');
+	});
+
+	it('is read-only with a single option', () => {
+		const onChange = vi.fn();
+		const { props, knob, press } = mountOptionKnob({ options: ['mono'], value: 'mono', onChange });
+		expect(knob.getAttribute('aria-readonly')).toBe('true');
+		expect(knob.getAttribute('aria-valuenow')).toBe('0');
+
+		press('End');
+		expect(props.value).toBe('mono');
+		expect(onChange).not.toHaveBeenCalled();
+	});
+
+	it('has no value without options', () => {
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+		const { props, knob, press } = mountOptionKnob({ options: [], value: null });
+		expect(knob.getAttribute('aria-readonly')).toBe('true');
+		expect(document.querySelectorAll('text')).toHaveLength(0);
+
+		press('End');
+		expect(props.value).toBe(null);
+		expect(warn).toHaveBeenCalled();
+		warn.mockRestore();
+	});
+
+	it('submits and validates the option itself', () => {
+		const form = document.createElement('form');
+		document.body.append(form);
+		component = mount(OptionKnob, {
+			target: form,
+			props: {
+				options: [1, 2, 4, 8, 16],
+				size: 100,
+				name: 'multiplier',
+				value: 4,
+				validate: (option) => (option === 4 ? 'Not 4' : '')
+			}
+		});
+		flushSync();
+
+		expect(new FormData(form).get('multiplier')).toBe('4');
+		expect(form.checkValidity()).toBe(false);
+	});
+});
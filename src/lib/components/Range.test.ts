@@ -0,0 +1,65 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from 'vitest';
+import { flushSync, mount, unmount } from 'svelte';
+import Range from './Range.svelte';
+import type { ComponentProps } from 'svelte';
+import type { KnobContext } from '../types.js';
+
+let component: ReturnType<typeof mount> | null = null;
+
+afterEach(() => {
+	if (component) unmount(component);
+	component = null;
+	document.body.innerHTML = '';
+});
+
+/**
+ * Mounts a range in a full-circle log knob from 20 to 20000
+ * @param props - Range props besides the width
+ * @returns End points of the outer edge of the range
+ */
+const mountRange = (props: Partial<ComponentProps<typeof Range>>) => {
+	const svg = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
+	document.body.append(svg);
+	const context = {
+		state: { percentage: 0.5 },
+		displayPercentage: 0.5,
+		config: {
+			size: 100,
+			angleOffset: 0,
+			angleRange: 360,
+			min: 20,
+			max: 20000,
+			readOnly: false,
+			taper: 'log'
+		}
+	} as unknown as KnobContext;
+	component = mount(Range, {
+		target: svg,
+		props: { arcWidth: 10, ...props },
+		context: new Map([['knob', context]])
+	});
+	flushSync();
+
+	// M x,y A r,r 0 large sweep x,y ...
+	const numbers = (svg.querySelector('path')?.getAttribute('d') ?? '').match(/-?[\d.e-]+/g) ?? [];
+	const [fromX, fromY, , , , , , toX, toY] = numbers.map(Number);
+	return { from: { x: fromX, y: fromY }, to: { x: toX, y: toY } };
+};
+
+describe('Range', () => {
+	it('maps values through the range and taper of the knob', () => {
+		const { from, to } = mountRange({ valueFrom: 20, valueTo: 2000 });
+		// 20 is at the top, 2000 two thirds of the way round
+		expect(from.x).toBeCloseTo(50);
+		expect(from.y).toBeCloseTo(0);
+		expect(to.x).toBeCloseTo(50 + 50 * Math.cos((150 * Math.PI) / 180));
+		expect(to.y).toBeCloseTo(50 + 50 * Math.sin((150 * Math.PI) / 180));
+	});
+
+	it('prefers values over percentages', () => {
+		const { from } = mountRange({ valueFrom: 632.455532, percentageFrom: 0, percentageTo: 1 });
+		expect(from.x).toBeCloseTo(50);
+		expect(from.y).toBeCloseTo(100);
+	});
+});
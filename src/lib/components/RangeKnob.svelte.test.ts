@@ -0,0 +1,63 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from 'vitest';
+import { flushSync, mount, unmount } from 'svelte';
+import RangeKnob from './RangeKnob.svelte';
+import type { ComponentProps } from 'svelte';
+
+let component: ReturnType<typeof mount> | null = null;
+
+afterEach(() => {
+	if (component) unmount(component);
+	component = null;
+	document.body.innerHTML = '';
+});
+
+/**
+ * Mounts a range knob with thumbs at 20 and 80 whose props can be changed afterwards
+ * @param initialProps - Range knob props besides the range, values and size
+ */
+const mountRangeKnob = (initialProps: Partial<ComponentProps<typeof RangeKnob>> = {}) => {
+	const props = $state<ComponentProps<typeof RangeKnob>>({
+		min: 0,
+		max: 100,
+		values: [20, 80],
+		size: 100,
+		...initialProps
+	});
+	component = mount(RangeKnob, { target: document.body, props });
+	flushSync();
+
+	const thumbs = [...document.querySelectorAll('[role="slider"]')] as HTMLElement[];
+	return { props, thumbs };
+};
+
+describe('RangeKnob', () => {
+	it('renders a focusable slider per thumb, bounded by its neighbours', () => {
+		const { thumbs } = mountRangeKnob({ ariaLabels: ['Start', 'End'] });
+		expect(thumbs).toHaveLength(2);
+		expect(thumbs.map((thumb) => thumb.getAttribute('tabindex'))).toEqual(['0', '0']);
+		expect(thumbs.map((thumb) => thumb.getAttribute('aria-label'))).toEqual(['Start', 'End']);
+		expect(thumbs[0].getAttribute('aria-valuemax')).toBe('80');
+		expect(thumbs[1].getAttribute('aria-valuemin')).toBe('20');
+	});
+
+	it('moves the thumb receiving the keys and binds all values', () => {
+		const { props, thumbs } = mountRangeKnob();
+		thumbs[1].dispatchEvent(new FocusEvent('focus'));
+		thumbs[1].dispatchEvent(
+			new KeyboardEvent('keydown', { key: 'ArrowLeft', bubbles: true, cancelable: true })
+		);
+		flushSync();
+
+		expect(thumbs[1].getAttribute('aria-valuenow')).toBe('79');
+		expect(props.values).toEqual([20, 79]);
+	});
+
+	it('bounds thumbs by their neighbours on a range running from high to low', () => {
+		const { thumbs } = mountRangeKnob({ min: 100, max: 0, values: [80, 20] });
+		expect(thumbs[0].getAttribute('aria-valuemin')).toBe('20');
+		expect(thumbs[0].getAttribute('aria-valuemax')).toBe('100');
+		expect(thumbs[1].getAttribute('aria-valuemin')).toBe('0');
+		expect(thumbs[1].getAttribute('aria-valuemax')).toBe('80');
+	});
+});
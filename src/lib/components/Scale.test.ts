@@ -0,0 +1,167 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from 'vitest';
+import { flushSync, mount, unmount } from 'svelte';
+import Scale from './Scale.svelte';
+import type { ComponentProps } from 'svelte';
+import type { KnobContext } from '../types.js';
+import { getPercentageFromValue } from '../utils/math.js';
+
+let component: ReturnType<typeof mount> | null = null;
+
+afterEach(() => {
+	if (component) unmount(component);
+	component = null;
+	document.body.innerHTML = '';
+});
+
+/**
+ * Mounts a scale in a knob sweeping 270 degrees from 225
+ * @param props - Scale props besides the tick size
+ * @param config - Knob configuration besides the defaults
+ * @param percentage - Position of the knob
+ * @returns Rotation of each tick in degrees, the tick elements and the label texts
+ */
+const mountScale = (
+	props: Partial<ComponentProps<typeof Scale>> = {},
+	config: Partial<KnobContext['config']> = {},
+	percentage = 0
+) => {
+	const svg = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
+	document.body.append(svg);
+	const context = {
+		state: { percentage },
+		displayPercentage: percentage,
+		config: {
+			size: 100,
+			angleOffset: 225,
+			angleRange: 270,
+			min: 0,
+			max: 100,
+			readOnly: false,
+			taper: 'linear',
+			...config
+		}
+	} as unknown as KnobContext;
+	component = mount(Scale, {
+		target: svg,
+		props: { tickWidth: 2, tickHeight: 10, ...props },
+		context: new Map([['knob', context]])
+	});
+	flushSync();
+
+	const ticks = [...svg.querySelectorAll('rect')];
+	return {
+		rotations: ticks.map((tick) =>
+			Number(/rotate\((\S+)/.exec(tick.getAttribute('transform') ?? '')?.[1])
+		),
+		ticks,
+		labels: [...svg.querySelectorAll('text')].map((text) => text.textContent?.trim())
+	};
+};
+
+describe('Scale', () => {
+	it('places one tick per option on an option knob', () => {
+		const { rotations } = mountScale({}, { options: ['sine', 'square', 'saw', 'noise'] });
+		expect(rotations).toEqual([225, 315, 405, 495]);
+	});
+
+	it('places a single tick for a single option and none without options', () => {
+		expect(mountScale({}, { options: ['mono'] }).rotations).toEqual([225]);
+		unmount(component!);
+		expect(mountScale({}, { options: [] }).rotations).toEqual([]);
+	});
+
+	it('places a tick per step, including both ends of a partial dial', () => {
+		const { rotations } = mountScale({ steps: 2 });
+		expect(rotations).toEqual([225, 360, 495]);
+	});
+
+	it('sizes and classes every majorEvery-th tick as a major tick', () => {
+		const { ticks } = mountScale({
+			steps: 4,
+			majorEvery: 2,
+			majorTickWidth: 4,
+			majorTickHeight: 16,
+			class: 'tick',
+			majorClass: 'major'
+		});
+		expect(ticks.map((tick) => tick.getAttribute('height'))).toEqual([
+			'16',
+			'10',
+			'16',
+			'10',
+			'16'
+		]);
+		expect(ticks.map((tick) => tick.getAttribute('width'))).toEqual(['4', '2', '4', '2', '4']);
+		expect(ticks.map((tick) => tick.getAttribute('class'))).toEqual([
+			'tick major',
+			'tick',
+			'tick major',
+			'tick',
+			'tick major'
+		]);
+	});
+
+	it('labels major ticks with the formatted value', () => {
+		const { labels } = mountScale(
+			{ steps: 4, majorEvery: 2, labels: true },
+			{ format: (value) => `${value}%` }
+		);
+		expect(labels).toEqual(['0%', '50%', '100%']);
+	});
+
+	it('labels every tick without majorEvery', () => {
+		const { labels } = mountScale({ steps: 4, labels: true });
+		expect(labels).toEqual(['0', '25', '50', '75', '100']);
+	});
+
+	it('highlights the tick at the value, or every tick up to it', () => {
+		const active = (highlight: 'active' | 'fill') =>
+			mountScale({ steps: 4, highlight, activeClass: 'on' }, {}, 0.5).ticks.map(
+				(tick) => tick.getAttribute('class') === 'on'
+			);
+		expect(active('active')).toEqual([false, false, true, false, false]);
+		expect(active('fill')).toEqual([true, true, true, false, false]);
+	});
+
+	it('fills from the origin of a bipolar knob', () => {
+		const { ticks } = mountScale(
+			{ steps: 4, highlight: 'fill', activeClass: 'on' },
+			{ min: -50, max: 50, origin: 0 },
+			0.25
+		);
+		expect(ticks.map((tick) => tick.getAttribute('class') === 'on')).toEqual([
+			false,
+			true,
+			true,
+			false,
+			false
+		]);
+	});
+
+	it('places evenly spaced tick values through the taper', () => {
+		const config = { min: 20, max: 20000, taper: 'log' as const };
+		const values = [20, 6680, 13340, 20000];
+		const percentages = values.map((value) => getPercentageFromValue({ ...config, value }));
+		const { rotations, ticks, labels } = mountScale(
+			{ steps: 3, labels: true, highlight: 'fill', activeClass: 'on' },
+			config,
+			percentages[2]
+		);
+		rotations.forEach((rotation, i) => expect(rotation).toBeCloseTo(225 + 270 * percentages[i]));
+		expect(labels).toEqual(values.map(String));
+		expect(ticks.map((tick) => tick.getAttribute('class') === 'on')).toEqual([
+			true,
+			true,
+			true,
+			false
+		]);
+	});
+
+	it('draws built-in shapes from the radius inward', () => {
+		mountScale({ steps: 2, type: 'line', stroke: 'black' });
+		const lines = [...document.querySelectorAll('line')];
+		expect(lines).toHaveLength(3);
+		expect(lines[1].getAttribute('transform')).toBe('rotate(360 50 50) translate(50 0)');
+	});
+});
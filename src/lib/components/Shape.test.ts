@@ -0,0 +1,66 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from 'vitest';
+import { flushSync, mount, unmount } from 'svelte';
+import Shape from './Shape.svelte';
+import type { ComponentProps } from 'svelte';
+
+let component: ReturnType<typeof mount> | null = null;
+
+afterEach(() => {
+	if (component) unmount(component);
+	component = null;
+	document.body.innerHTML = '';
+});
+
+/**
+ * Mounts a shape 6 wide and 20 high
+ * @param props - Shape props besides the size and color
+ * @returns The drawn element
+ */
+const mountShape = (props: Partial<ComponentProps<typeof Shape>>) => {
+	const svg = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
+	document.body.append(svg);
+	component = mount(Shape, {
+		target: svg,
+		props: { type: 'rect', width: 6, height: 20, color: 'red', ...props }
+	});
+	flushSync();
+	return svg.firstElementChild as SVGElement;
+};
+
+describe('Shape', () => {
+	it('centers a rect horizontally', () => {
+		const shape = mountShape({ type: 'rect' });
+		expect(shape.tagName).toBe('rect');
+		expect(shape.getAttribute('x')).toBe('-3');
+		expect(shape.getAttribute('fill')).toBe('red');
+	});
+
+	it('draws a line with round caps kept within the height', () => {
+		const shape = mountShape({ type: 'line' });
+		expect(shape.tagName).toBe('line');
+		expect(shape.getAttribute('stroke')).toBe('red');
+		expect(shape.getAttribute('stroke-width')).toBe('6');
+		expect(shape.getAttribute('stroke-linecap')).toBe('round');
+		expect(shape.getAttribute('y1')).toBe('3');
+		expect(shape.getAttribute('y2')).toBe('17');
+	});
+
+	it('draws a notch pointing inward', () => {
+		const shape = mountShape({ type: 'notch' });
+		expect(shape.tagName).toBe('path');
+		expect(shape.getAttribute('d')).toBe('M -3,0 L 3,0 L 0,20 z');
+	});
+
+	it.each(['triangle', 'needle', 'diamond', 'arrow'] as const)('draws a %s as a path', (type) => {
+		const shape = mountShape({ type });
+		expect(shape.tagName).toBe('path');
+		expect(shape.getAttribute('d')).toMatch(/^M 0,0 /);
+	});
+
+	it('adds a border to filled shapes', () => {
+		const shape = mountShape({ type: 'diamond', stroke: 'black', strokeWidth: 2 });
+		expect(shape.getAttribute('stroke')).toBe('black');
+		expect(shape.getAttribute('stroke-width')).toBe('2');
+	});
+});
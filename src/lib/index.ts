@@ -9,20 +9,36 @@
 
 // Components
 export { default as Knob } from './components/Knob.svelte';
+export { default as KnobGroup } from './components/KnobGroup.svelte';
 export { default as Arc } from './components/Arc.svelte';
+export { default as Gauge } from './components/Gauge.svelte';
 export { default as Label } from './components/Label.svelte';
+export { default as OptionKnob } from './components/OptionKnob.svelte';
+export { default as Peak } from './components/Peak.svelte';
 export { default as Pointer } from './components/Pointer.svelte';
 export { default as Range } from './components/Range.svelte';
+export { default as RangeKnob } from './components/RangeKnob.svelte';
 export { default as Scale } from './components/Scale.svelte';
 export { default as Spiral } from './components/Spiral.svelte';
+export { default as Trail } from './components/Trail.svelte';
 export { default as Value } from './components/Value.svelte';
 
 // Types
 export * from './types.js';
 
 // Stores
+export * from './stores/gauge.svelte.js';
+export * from './stores/group.svelte.js';
+export * from './stores/history.svelte.js';
 export * from './stores/knob.svelte.js';
+export * from './stores/midi.svelte.js';
+export * from './stores/rangeKnob.svelte.js';
+
+// Actions
+export * from './actions/knob.svelte.js';
 
 // Utils
 export * from './utils/angles.js';
 export * from './utils/math.js';
+export * from './utils/format.js';
+export * from './utils/midi.js';
@@ -0,0 +1,215 @@
+import type { GaugeState } from '../types.js';
+
+/**
+ * Fraction of the range below which the level is considered settled
+ */
+const SETTLE_PRECISION = 1e-4;
+
+/**
+ * Configuration fields that can be updated after initialization via `configure`
+ */
+type GaugeStateConfiguration = Pick<
+	GaugeConfiguration,
+	'min' | 'max' | 'attack' | 'release' | 'peakHold' | 'overload'
+>;
+
+/**
+ * Configuration interface for gauge initialization
+ */
+interface GaugeConfiguration {
+	min: number;
+	max: number;
+	/** Initial input value */
+	initialValue?: number;
+	/** Time constant in milliseconds of a rising level */
+	attack?: number;
+	/** Time constant in milliseconds of a falling level and of a decaying peak */
+	release?: number;
+	/** Time in milliseconds the peak and overload are held before decaying */
+	peakHold?: number;
+	/** Value from which the input counts as an overload */
+	overload?: number;
+	/** Called with the input when it enters the overload zone */
+	onOverload?: (value: number) => void;
+}
+
+/**
+ * Creates the state of a gauge: a level following the input with attack/release
+ * ballistics, a held peak and an overload latch. Time is passed in by the caller
+ * (e.g. from requestAnimationFrame), so the store has no timers of its own.
+ * Rising, peak and overload are towards max, also when min is greater than max.
+ * @param config - Configuration object for the gauge
+ * @returns Object containing the state and update functions
+ */
+export function createGaugeState({
+	min,
+	max,
+	initialValue = min,
+	attack = 10,
+	release = 300,
+	peakHold = 1500,
+	overload,
+	onOverload
+}: GaugeConfiguration) {
+	console.debug('[createGaugeState] Initializing with config:', {
+		min,
+		max,
+		initialValue,
+		attack,
+		release,
+		peakHold,
+		overload
+	});
+
+	const settings: GaugeStateConfiguration = { min, max, attack, release, peakHold, overload };
+
+	const internalState = $state<GaugeState>({
+		input: initialValue,
+		level: initialValue,
+		peak: initialValue,
+		isOverloaded: false
+	});
+
+	/**
+	 * Time of the previous update, null while the gauge is settled
+	 */
+	let lastTime: number | null = null;
+
+	/**
+	 * Time the current peak was reached
+	 */
+	let peakTime = 0;
+
+	/**
+	 * Time the input was last in the overload zone
+	 */
+	let overloadTime = 0;
+
+	/**
+	 * Signed distance from one value to another along the range, positive towards max
+	 * @param value - Value to compare
+	 * @param reference - Value compared against
+	 */
+	function towardsMax(value: number, reference: number) {
+		return (value - reference) * (Math.sign(settings.max - settings.min) || 1);
+	}
+
+	/**
+	 * Moves a value towards a target with an exponential time constant
+	 * @param from - Current value
+	 * @param to - Target value
+	 * @param elapsed - Elapsed time in milliseconds
+	 * @param timeConstant - Time constant in milliseconds, 0 for an instant move
+	 */
+	function approach(from: number, to: number, elapsed: number, timeConstant: number) {
+		if (timeConstant <= 0) return to;
+		const next = from + (to - from) * (1 - Math.exp(-elapsed / timeConstant));
+		const precision = Math.abs(settings.max - settings.min) * SETTLE_PRECISION;
+		return Math.abs(to - next) < precision ? to : next;
+	}
+
+	/**
+	 * Sets the input value. The level follows on the next updates.
+	 * @param value - New input value
+	 * @param now - Current time in milliseconds
+	 */
+	function setInput(value: number, now: number) {
+		console.debug('[setInput] New input:', value);
+		internalState.input = value;
+
+		if (towardsMax(value, internalState.peak) >= 0) {
+			internalState.peak = value;
+			peakTime = now;
+		}
+
+		if (settings.overload !== undefined && towardsMax(value, settings.overload) >= 0) {
+			if (!internalState.isOverloaded) {
+				console.debug('[setInput] Entering overload:', value);
+				onOverload?.(value);
+			}
+			internalState.isOverloaded = true;
+			overloadTime = now;
+		}
+	}
+
+	/**
+	 * Advances the ballistics, peak decay and overload latch to the given time
+	 * @param now - Current time in milliseconds
+	 * @returns Whether the gauge is still moving and needs further updates
+	 */
+	function update(now: number) {
+		const previousTime = lastTime;
+		const elapsed = previousTime === null ? 0 : now - previousTime;
+		lastTime = now;
+
+		const { input, level } = internalState;
+		const timeConstant = towardsMax(input, level) > 0 ? settings.attack : settings.release;
+		internalState.level = approach(level, input, elapsed, timeConstant ?? 0);
+
+		// Once held long enough, the peak falls back to the level, from the end of the hold
+		const peakDecayTime = now - peakTime - (settings.peakHold ?? 0);
+		if (peakDecayTime > 0 && towardsMax(internalState.peak, internalState.level) > 0) {
+			const peak = approach(
+				internalState.peak,
+				internalState.level,
+				previousTime === null ? peakDecayTime : Math.min(elapsed, peakDecayTime),
+				settings.release ?? 0
+			);
+			internalState.peak = towardsMax(peak, internalState.level) > 0 ? peak : internalState.level;
+		}
+
+		if (
+			internalState.isOverloaded &&
+			now - overloadTime > (settings.peakHold ?? 0) &&
+			(settings.overload === undefined || towardsMax(input, settings.overload) < 0)
+		) {
+			console.debug('[update] Leaving overload');
+			internalState.isOverloaded = false;
+		}
+
+		// A held peak or overload does not move until its hold expires, see getHoldRemaining
+		const isMoving =
+			internalState.level !== input ||
+			(peakDecayTime > 0 && internalState.peak !== internalState.level);
+		if (!isMoving) lastTime = null;
+		return isMoving;
+	}
+
+	/**
+	 * Gets the time until a held peak starts decaying or a held overload is released,
+	 * so a settled gauge can wait for it instead of updating every frame
+	 * @param now - Current time in milliseconds
+	 * @returns Remaining hold in milliseconds, or null when nothing is held
+	 */
+	function getHoldRemaining(now: number) {
+		const holds: number[] = [];
+		if (towardsMax(internalState.peak, internalState.level) > 0) {
+			holds.push(peakTime);
+		}
+		if (
+			internalState.isOverloaded &&
+			(settings.overload === undefined || towardsMax(internalState.input, settings.overload) < 0)
+		) {
+			holds.push(overloadTime);
+		}
+		if (!holds.length) return null;
+		return Math.max(Math.min(...holds) + (settings.peakHold ?? 0) - now, 0);
+	}
+
+	/**
+	 * Applies configuration changes after creation
+	 * @param config - Configuration fields to update
+	 */
+	function configure(config: Partial<GaugeStateConfiguration>) {
+		console.debug('[configure] Updating gauge configuration:', config);
+		Object.assign(settings, config);
+	}
+
+	return {
+		state: internalState,
+		setInput,
+		update,
+		getHoldRemaining,
+		configure
+	};
+}
@@ -0,0 +1,125 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createGaugeState } from './gauge.svelte.js';
+
+type GaugeConfiguration = Parameters<typeof createGaugeState>[0];
+
+/**
+ * Creates a gauge store over 0..100
+ */
+const createGauge = (config: Partial<GaugeConfiguration> = {}) =>
+	createGaugeState({ min: 0, max: 100, ...config });
+
+describe('ballistics', () => {
+	it('rises with the attack time constant', () => {
+		const gauge = createGauge({ attack: 10 });
+		gauge.setInput(100, 0);
+		gauge.update(0);
+		expect(gauge.state.level).toBe(0);
+
+		gauge.update(10);
+		expect(gauge.state.level).toBeCloseTo(100 * (1 - Math.exp(-1)));
+	});
+
+	it('falls with the release time constant', () => {
+		const gauge = createGauge({ initialValue: 100, release: 300 });
+		gauge.setInput(0, 0);
+		gauge.update(0);
+		gauge.update(300);
+		expect(gauge.state.level).toBeCloseTo(100 * Math.exp(-1));
+	});
+
+	it('settles on the input and reports that it stopped moving', () => {
+		const gauge = createGauge({ attack: 0, peakHold: 0 });
+		gauge.setInput(40, 0);
+		expect(gauge.update(0)).toBe(false);
+		expect(gauge.state.level).toBe(40);
+	});
+});
+
+describe('peak hold', () => {
+	it('holds the peak for peakHold and then decays towards the level', () => {
+		const gauge = createGauge({ attack: 0, release: 0, peakHold: 1000 });
+		gauge.setInput(80, 0);
+		gauge.update(0);
+		gauge.setInput(20, 100);
+		gauge.update(100);
+		expect(gauge.state.level).toBe(20);
+		expect(gauge.state.peak).toBe(80);
+
+		gauge.update(1000);
+		expect(gauge.state.peak).toBe(80);
+
+		gauge.update(1001);
+		expect(gauge.state.peak).toBe(20);
+	});
+
+	it('stops moving during the hold and reports when it expires', () => {
+		const gauge = createGauge({ attack: 0, release: 100, peakHold: 1000 });
+		gauge.setInput(80, 0);
+		gauge.update(0);
+		gauge.setInput(20, 0);
+		gauge.update(0);
+		expect(gauge.update(1000)).toBe(false);
+		expect(gauge.state.level).toBe(20);
+		expect(gauge.state.peak).toBe(80);
+		expect(gauge.getHoldRemaining(400)).toBe(600);
+
+		// The peak decays from the end of the hold, not from the last update
+		expect(gauge.update(1100)).toBe(true);
+		expect(gauge.state.peak).toBeCloseTo(20 + 60 * Math.exp(-1));
+		gauge.update(3000);
+		expect(gauge.state.peak).toBe(20);
+		expect(gauge.getHoldRemaining(3000)).toBeNull();
+	});
+
+	it('restarts the hold when a new peak is reached', () => {
+		const gauge = createGauge({ attack: 0, release: 0, peakHold: 1000 });
+		gauge.setInput(50, 0);
+		gauge.setInput(60, 800);
+		gauge.setInput(0, 900);
+		gauge.update(1500);
+		expect(gauge.state.peak).toBe(60);
+	});
+});
+
+describe('overload', () => {
+	it('calls onOverload when entering the zone and latches for peakHold', () => {
+		const onOverload = vi.fn();
+		const gauge = createGauge({ overload: 90, peakHold: 500, onOverload });
+		gauge.setInput(95, 0);
+		gauge.setInput(98, 10);
+		expect(onOverload).toHaveBeenCalledOnce();
+		expect(onOverload).toHaveBeenCalledWith(95);
+		expect(gauge.state.isOverloaded).toBe(true);
+
+		gauge.setInput(50, 20);
+		gauge.update(500);
+		expect(gauge.state.isOverloaded).toBe(true);
+
+		expect(gauge.getHoldRemaining(500)).toBe(10);
+
+		gauge.update(511);
+		expect(gauge.state.isOverloaded).toBe(false);
+	});
+});
+
+describe('inverted range', () => {
+	it('rises, peaks and overloads towards max when min is greater than max', () => {
+		const onOverload = vi.fn();
+		const gauge = createGauge({
+			min: 0,
+			max: -100,
+			attack: 10,
+			release: 1000,
+			overload: -90,
+			onOverload
+		});
+		gauge.setInput(-95, 0);
+		gauge.update(0);
+		gauge.update(10);
+
+		expect(gauge.state.level).toBeCloseTo(-95 * (1 - Math.exp(-1)));
+		expect(gauge.state.peak).toBe(-95);
+		expect(onOverload).toHaveBeenCalledWith(-95);
+	});
+});
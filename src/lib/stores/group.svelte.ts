@@ -0,0 +1,213 @@
+import { clamp, getPercentageFromValue, getValueFromPercentage } from '../utils/math.js';
+import type {
+	KnobGesture,
+	KnobGroupState,
+	KnobLinkMode,
+	KnobLinkModifier,
+	Taper
+} from '../types.js';
+
+/**
+ * Knob store functions the group needs to move a knob along
+ */
+interface GroupMember {
+	handleDeltaStart: () => void;
+	handleFollow: (value: number) => void;
+	handleEnd: (gesture?: KnobGesture) => void;
+	state: {
+		value: number | null;
+		startValue: number | null;
+		min: number;
+		max: number;
+		taper: Taper;
+		isActive: boolean;
+	};
+}
+
+/**
+ * Configuration interface for group initialization
+ */
+interface KnobGroupConfiguration {
+	/** How the other knobs follow a drag: 'absolute' or 'proportional' */
+	mode?: KnobLinkMode;
+	/** Whether drags move the whole group */
+	linked?: boolean;
+	/** Key that, held when a drag starts, inverts linked for that drag */
+	modifier?: KnobLinkModifier;
+}
+
+/**
+ * Linked drag in progress
+ */
+interface GroupGesture {
+	/** Knob being dragged */
+	leader: GroupMember;
+	/** Value of the leader when the drag started */
+	startValue: number;
+	/** Knobs moving along, with their values when the drag started */
+	followers: Map<GroupMember, number>;
+}
+
+/**
+ * Creates a group of knobs that move together.
+ * Dragging one knob of a linked group applies the same change to the others,
+ * each clamped to its own range. In 'absolute' mode the others change by the
+ * same amount in value units, in 'proportional' mode by the same share of their range.
+ * @param config - Configuration object for the group
+ * @returns Object containing the state and group functions
+ */
+export function createKnobGroup({
+	mode = 'absolute',
+	linked = true,
+	modifier = 'Alt'
+}: KnobGroupConfiguration = {}) {
+	console.debug('[createKnobGroup] Initializing with config:', { mode, linked, modifier });
+
+	const internalState = $state<KnobGroupState>({
+		mode,
+		linked,
+		modifier
+	});
+
+	const members = new Set<GroupMember>();
+
+	let gesture: GroupGesture | null = null;
+
+	/**
+	 * Gets the value a follower moves to for the current value of the leader
+	 * @param follower - Knob moving along
+	 * @param followerStart - Value of the follower when the drag started
+	 * @param leaderValue - Current value of the leader
+	 */
+	function getFollowerValue(follower: GroupMember, followerStart: number, leaderValue: number) {
+		const { leader, startValue } = gesture as GroupGesture;
+		if (internalState.mode === 'absolute') {
+			return followerStart + (leaderValue - startValue);
+		}
+
+		const deltaPercentage =
+			getPercentageFromValue({ ...leader.state, value: leaderValue }) -
+			getPercentageFromValue({ ...leader.state, value: startValue });
+		const percentage = clamp(
+			0,
+			1,
+			getPercentageFromValue({ ...follower.state, value: followerStart }) + deltaPercentage
+		);
+		return getValueFromPercentage({ ...follower.state, percentage });
+	}
+
+	/**
+	 * Starts a drag of a member. When linking applies, the other members start
+	 * moving along. Starts caused by the group itself are ignored.
+	 * @param member - Knob being dragged
+	 * @param modifierHeld - Whether the modifier key was held when the drag started
+	 */
+	function start(member: GroupMember, modifierHeld = false) {
+		if (gesture) return;
+
+		const startValue = member.state.startValue ?? member.state.value;
+		if (startValue === null || internalState.linked === modifierHeld) {
+			console.debug('[start] Not linking drag:', { linked: internalState.linked, modifierHeld });
+			return;
+		}
+
+		// Set before starting the followers, whose own start is then ignored
+		gesture = { leader: member, startValue, followers: new Map() };
+		for (const follower of members) {
+			if (follower === member || follower.state.isActive || follower.state.value === null) {
+				continue;
+			}
+			follower.handleDeltaStart();
+			gesture.followers.set(follower, follower.state.value);
+		}
+		console.debug('[start] Linked drag started:', {
+			startValue,
+			followers: gesture.followers.size
+		});
+	}
+
+	/**
+	 * Moves the followers after the leader changed. Changes of other members are ignored.
+	 * @param member - Knob whose value changed
+	 */
+	function move(member: GroupMember) {
+		if (gesture?.leader !== member || member.state.value === null) return;
+
+		const leaderValue = member.state.value;
+		gesture.followers.forEach((followerStart, follower) => {
+			follower.handleFollow(getFollowerValue(follower, followerStart, leaderValue));
+		});
+	}
+
+	/**
+	 * Ends a drag of a member. The followers take the leader's final change,
+	 * so a cancelled drag reverts them too, and then end their drag. They commit
+	 * it as 'follow', so a history records the whole gesture as one entry.
+	 * @param member - Knob whose drag ended
+	 */
+	function end(member: GroupMember) {
+		if (gesture?.leader !== member) return;
+
+		move(member);
+		const { followers } = gesture;
+		gesture = null;
+		console.debug('[end] Linked drag ended');
+		followers.forEach((_, follower) => follower.handleEnd('follow'));
+	}
+
+	/**
+	 * Adds a knob store to the group
+	 * @param member - Knob store (e.g. from `createKnobState`)
+	 * @returns Functions bound to the knob to report its drag, and one that removes it
+	 */
+	function register(member: GroupMember) {
+		console.debug('[register] Registering knob, members:', members.size + 1);
+		members.add(member);
+
+		return {
+			start: (modifierHeld?: boolean) => start(member, modifierHeld),
+			move: () => move(member),
+			end: () => end(member),
+			unregister: () => {
+				members.delete(member);
+				if (gesture?.leader === member) end(member);
+				gesture?.followers.delete(member);
+			}
+		};
+	}
+
+	/**
+	 * Suspends the linking, so drags move only the dragged knob
+	 */
+	function suspend() {
+		console.debug('[suspend] Suspending linking');
+		internalState.linked = false;
+	}
+
+	/**
+	 * Resumes the linking after `suspend`
+	 */
+	function resume() {
+		console.debug('[resume] Resuming linking');
+		internalState.linked = true;
+	}
+
+	/**
+	 * Updates the group configuration
+	 * @param config - Partial configuration to apply
+	 */
+	function configure(config: Partial<KnobGroupState>) {
+		console.debug('[configure] Updating group configuration:', config);
+		Object.assign(internalState, config);
+	}
+
+	return {
+		state: internalState,
+		register,
+		suspend,
+		resume,
+		configure
+	};
+}
+
+export type KnobGroup = ReturnType<typeof createKnobGroup>;
@@ -0,0 +1,155 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createKnobGroup } from './group.svelte.js';
+import { createKnobHistory } from './history.svelte.js';
+import { createKnobState } from './knob.svelte.js';
+import type { KnobGesture } from '../types.js';
+
+type KnobConfiguration = Parameters<typeof createKnobState>[0];
+
+/**
+ * Creates a knob store reporting its drags to a group, as Knob does
+ * @param group - Group to join
+ * @param config - Store configuration besides the defaults
+ */
+const createGroupedKnob = (
+	group: ReturnType<typeof createKnobGroup>,
+	config: Partial<KnobConfiguration> = {}
+) => {
+	let link: ReturnType<typeof group.register> | null = null;
+	let modifierHeld = false;
+	const knob = createKnobState({
+		min: 0,
+		max: 100,
+		initialValue: 50,
+		multiRotation: false,
+		angleOffset: 0,
+		angleRange: 360,
+		size: 100,
+		readOnly: false,
+		tracking: true,
+		useMouseWheel: true,
+		onChange: vi.fn(),
+		onInteractiveChange: () => link?.move(),
+		onStart: () => link?.start(modifierHeld),
+		onEnd: () => link?.end(),
+		...config
+	} as KnobConfiguration);
+	link = group.register(knob);
+
+	/**
+	 * Drags the knob by a share of the dial
+	 * @param delta - Change in percentage
+	 * @param withModifier - Whether the group's modifier is held
+	 */
+	const drag = (delta: number, withModifier = false) => {
+		modifierHeld = withModifier;
+		knob.handleDeltaStart();
+		knob.handleDeltaMove(delta);
+	};
+	return { knob, link, drag };
+};
+
+describe('createKnobGroup', () => {
+	it('moves the other knobs by the same change in absolute mode', () => {
+		const group = createKnobGroup();
+		const left = createGroupedKnob(group);
+		const right = createGroupedKnob(group, { initialValue: 30 });
+		left.drag(0.1);
+		expect(right.knob.state.value).toBeCloseTo(40);
+
+		left.knob.handleEnd();
+		expect(right.knob.state.isActive).toBe(false);
+		expect(right.knob.state.value).toBeCloseTo(40);
+	});
+
+	it('moves the other knobs by the same share of their range in proportional mode', () => {
+		const group = createKnobGroup({ mode: 'proportional' });
+		const left = createGroupedKnob(group);
+		const send = createGroupedKnob(group, { min: 0, max: 10, initialValue: 2 });
+		left.drag(0.2);
+		left.knob.handleEnd();
+
+		expect(send.knob.state.value).toBeCloseTo(4);
+	});
+
+	it('clamps each knob to its own range', () => {
+		const group = createKnobGroup();
+		const left = createGroupedKnob(group);
+		const right = createGroupedKnob(group, { initialValue: 90 });
+		left.drag(0.3);
+
+		expect(left.knob.state.value).toBeCloseTo(80);
+		expect(right.knob.state.value).toBe(100);
+	});
+
+	it('reverts the other knobs when the drag is cancelled', () => {
+		const group = createKnobGroup();
+		const left = createGroupedKnob(group);
+		const right = createGroupedKnob(group, { initialValue: 30 });
+		left.drag(0.1);
+		left.knob.handleCancel();
+
+		expect(right.knob.state.value).toBe(30);
+	});
+
+	it('moves one knob alone while suspended or with the modifier held', () => {
+		const group = createKnobGroup();
+		const left = createGroupedKnob(group);
+		const right = createGroupedKnob(group, { initialValue: 30 });
+		left.drag(0.1, true);
+		left.knob.handleEnd();
+		expect(right.knob.state.value).toBe(30);
+
+		group.suspend();
+		left.drag(0.1);
+		left.knob.handleEnd();
+		expect(right.knob.state.value).toBe(30);
+
+		left.drag(0.1, true);
+		left.knob.handleEnd();
+		expect(right.knob.state.value).toBeCloseTo(40);
+
+		group.resume();
+		expect(group.state.linked).toBe(true);
+	});
+
+	it('records a linked drag as one history entry', () => {
+		const group = createKnobGroup();
+		const history = createKnobHistory();
+		const recordAs = (id: string) => ({
+			onCommit: (before: number, after: number, gesture: KnobGesture) =>
+				history.record({ id, before, after, gesture })
+		});
+		const left = createGroupedKnob(group, recordAs('left'));
+		const right = createGroupedKnob(group, { initialValue: 30, ...recordAs('right') });
+		history.register(left.knob, 'left');
+		history.register(right.knob, 'right');
+
+		left.drag(0.1);
+		left.knob.handleEnd();
+		expect(history.state.past).toHaveLength(1);
+		expect(history.state.past[0]).toMatchObject({
+			id: 'left',
+			before: 50,
+			gesture: 'drag',
+			linked: [{ id: 'right', before: 30 }]
+		});
+
+		history.undo();
+		expect(left.knob.state.value).toBe(50);
+		expect(right.knob.state.value).toBe(30);
+		history.redo();
+		expect(left.knob.state.value).toBeCloseTo(60);
+		expect(right.knob.state.value).toBeCloseTo(40);
+	});
+
+	it('leaves out unregistered knobs', () => {
+		const group = createKnobGroup();
+		const left = createGroupedKnob(group);
+		const right = createGroupedKnob(group, { initialValue: 30 });
+		right.link.unregister();
+		left.drag(0.1);
+
+		expect(right.knob.state.value).toBe(30);
+	});
+});
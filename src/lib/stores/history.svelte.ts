@@ -0,0 +1,199 @@
+import type {
+	KnobGesture,
+	KnobHistoryChange,
+	KnobHistoryEntry,
+	KnobHistoryState
+} from '../types.js';
+
+/**
+ * Knob store functions the history needs to apply an entry
+ */
+interface HistoryTarget {
+	handleSet: (value: number) => void;
+	state: { isActive: boolean };
+}
+
+/**
+ * Configuration interface for history initialization
+ */
+interface KnobHistoryConfiguration {
+	/** Maximum number of entries kept for undo */
+	limit?: number;
+	/** Milliseconds within which consecutive steps or controller changes of a knob form one entry */
+	coalesceWindow?: number;
+}
+
+/**
+ * Creates an undo/redo history shared by any number of knobs.
+ * Knobs register with an ID and record each completed edit (a drag, a burst of
+ * wheel or key steps, a jump to a value) as one entry. Undo and redo set the
+ * knobs through their stores, so their `onChange` fires as for a user edit.
+ * @param config - Configuration object for the history
+ * @returns Object containing the state and history functions
+ */
+export function createKnobHistory({
+	limit = 100,
+	coalesceWindow = 500
+}: KnobHistoryConfiguration = {}) {
+	console.debug('[createKnobHistory] Initializing with config:', { limit, coalesceWindow });
+
+	const internalState = $state<KnobHistoryState>({
+		past: [],
+		future: []
+	});
+
+	const targets = new Map<string, HistoryTarget>();
+
+	/**
+	 * Counter for the IDs of knobs registered without one
+	 */
+	let nextId = 0;
+
+	/**
+	 * Whether an entry is being applied, so the resulting commit is not recorded again
+	 */
+	let isApplying = false;
+
+	/**
+	 * Records a completed edit. Steps, or controller changes, of the same knob within
+	 * the coalesce window extend the previous entry, and knobs following a linked drag
+	 * join the entry of that drag. Recording clears the redo entries.
+	 * @param entry - Edit without its time
+	 * @param now - Current time in milliseconds
+	 */
+	function record(
+		{ id, before, after, gesture }: Omit<KnobHistoryEntry, 'time'>,
+		now = performance.now()
+	) {
+		if (isApplying || before === after) return;
+
+		const last = internalState.past[internalState.past.length - 1];
+		internalState.future = [];
+
+		if (
+			(gesture === 'step' || gesture === 'control') &&
+			last?.gesture === gesture &&
+			last.id === id &&
+			now - last.time <= coalesceWindow
+		) {
+			console.debug('[record] Coalescing into previous entry:', { id, gesture, after });
+			last.after = after;
+			last.time = now;
+			if (last.before === last.after) internalState.past.pop();
+			return;
+		}
+
+		// The leader of a linked drag commits right before the knobs following it
+		if (gesture === 'follow' && last?.gesture === 'drag' && now - last.time <= coalesceWindow) {
+			console.debug('[record] Linking to previous drag:', { id, before, after });
+			last.linked = [...(last.linked ?? []), { id, before, after }];
+			return;
+		}
+
+		console.debug('[record] New entry:', { id, before, after, gesture });
+		internalState.past.push({ id, before, after, gesture, time: now });
+		if (internalState.past.length > limit) internalState.past.shift();
+	}
+
+	/**
+	 * Registers a knob store with the history
+	 * @param target - Knob store (e.g. from `createKnobState`)
+	 * @param id - ID of the knob in the entries, generated when not given
+	 * @returns The ID, a record function bound to it and a function that unregisters the knob
+	 */
+	function register(target: HistoryTarget, id = `knob-${++nextId}`) {
+		console.debug('[register] Registering knob:', id);
+		targets.set(id, target);
+
+		return {
+			id,
+			record: (before: number, after: number, gesture: KnobGesture) =>
+				record({ id, before, after, gesture }),
+			unregister: () => {
+				if (targets.get(id) === target) targets.delete(id);
+			}
+		};
+	}
+
+	/**
+	 * Moves the latest entry from one stack to the other and sets its knobs.
+	 * Entries of knobs that are no longer registered are dropped.
+	 * @param from - Stack to take the entry from
+	 * @param to - Stack to put the entry on
+	 * @param getValue - Value of a change to set
+	 * @returns Whether an entry was applied
+	 */
+	function apply(
+		from: KnobHistoryEntry[],
+		to: KnobHistoryEntry[],
+		getValue: (change: KnobHistoryChange) => number
+	) {
+		let entry = from.pop();
+		while (entry && !targets.has(entry.id)) {
+			console.debug('[apply] Dropping entry of unregistered knob:', entry.id);
+			entry = from.pop();
+		}
+		if (!entry) return false;
+
+		const target = targets.get(entry.id) as HistoryTarget;
+		if (target.state.isActive) {
+			console.debug('[apply] Ignoring - knob is being dragged:', entry.id);
+			from.push(entry);
+			return false;
+		}
+
+		isApplying = true;
+		try {
+			target.handleSet(getValue(entry));
+			entry.linked?.forEach((change) => targets.get(change.id)?.handleSet(getValue(change)));
+		} finally {
+			isApplying = false;
+		}
+		to.push(entry);
+		return true;
+	}
+
+	/**
+	 * Reverts the latest entry
+	 * @returns Whether an entry was undone
+	 */
+	function undo() {
+		console.debug('[undo] Undoing latest entry');
+		return apply(internalState.past, internalState.future, (entry) => entry.before);
+	}
+
+	/**
+	 * Applies the latest undone entry again
+	 * @returns Whether an entry was redone
+	 */
+	function redo() {
+		console.debug('[redo] Redoing latest entry');
+		return apply(internalState.future, internalState.past, (entry) => entry.after);
+	}
+
+	/**
+	 * Removes all entries
+	 */
+	function clear() {
+		console.debug('[clear] Clearing history');
+		internalState.past = [];
+		internalState.future = [];
+	}
+
+	return {
+		state: internalState,
+		get canUndo() {
+			return internalState.past.length > 0;
+		},
+		get canRedo() {
+			return internalState.future.length > 0;
+		},
+		register,
+		record,
+		undo,
+		redo,
+		clear
+	};
+}
+
+export type KnobHistory = ReturnType<typeof createKnobHistory>;
@@ -0,0 +1,150 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createKnobHistory } from './history.svelte.js';
+import { createKnobState } from './knob.svelte.js';
+
+type KnobConfiguration = Parameters<typeof createKnobState>[0];
+
+/**
+ * Creates a knob store registered with a history
+ * @param history - History to record to
+ * @param id - ID of the knob in the history
+ * @param config - Store configuration besides the defaults
+ */
+const createRecordedKnob = (
+	history: ReturnType<typeof createKnobHistory>,
+	id: string,
+	config: Partial<KnobConfiguration> = {}
+) => {
+	let recorder: ReturnType<typeof history.register> | null = null;
+	const knob = createKnobState({
+		min: 0,
+		max: 100,
+		initialValue: 50,
+		multiRotation: false,
+		angleOffset: 0,
+		angleRange: 360,
+		size: 100,
+		readOnly: false,
+		tracking: true,
+		useMouseWheel: true,
+		onChange: vi.fn(),
+		onInteractiveChange: vi.fn(),
+		onStart: vi.fn(),
+		onEnd: vi.fn(),
+		onCommit: (before, after, gesture) => recorder?.record(before, after, gesture),
+		...config
+	} as KnobConfiguration);
+	recorder = history.register(knob, id);
+	return { knob, recorder };
+};
+
+describe('createKnobHistory', () => {
+	it('records a drag as one entry and undoes it through the store', () => {
+		const history = createKnobHistory();
+		const onChange = vi.fn();
+		const { knob } = createRecordedKnob(history, 'gain', { onChange });
+		knob.handleStart(90);
+		knob.handleMove(120);
+		knob.handleMove(144);
+		knob.handleEnd();
+		expect(history.state.past).toHaveLength(1);
+		expect(history.state.past[0]).toMatchObject({ id: 'gain', before: 50, gesture: 'drag' });
+
+		history.undo();
+		expect(knob.state.value).toBe(50);
+		expect(onChange).toHaveBeenLastCalledWith(50);
+	});
+
+	it('undoes and redoes across knobs in order, firing onChange', () => {
+		const history = createKnobHistory();
+		const onGainChange = vi.fn();
+		const { knob: gain } = createRecordedKnob(history, 'gain', { onChange: onGainChange });
+		const { knob: pan } = createRecordedKnob(history, 'pan');
+		gain.handleSet(70);
+		pan.handleSet(10);
+
+		expect(history.undo()).toBe(true);
+		expect(pan.state.value).toBe(50);
+		expect(gain.state.value).toBe(70);
+
+		expect(history.undo()).toBe(true);
+		expect(gain.state.value).toBe(50);
+		expect(onGainChange).toHaveBeenLastCalledWith(50);
+		expect(history.canUndo).toBe(false);
+		expect(history.undo()).toBe(false);
+
+		expect(history.redo()).toBe(true);
+		expect(gain.state.value).toBe(70);
+		expect(history.state.past).toHaveLength(1);
+		expect(history.canRedo).toBe(true);
+	});
+
+	it('coalesces steps of a knob within the window', () => {
+		const history = createKnobHistory({ coalesceWindow: 500 });
+		history.record({ id: 'gain', before: 50, after: 51, gesture: 'step' }, 0);
+		history.record({ id: 'gain', before: 51, after: 52, gesture: 'step' }, 400);
+		history.record({ id: 'gain', before: 52, after: 53, gesture: 'step' }, 800);
+		history.record({ id: 'gain', before: 53, after: 54, gesture: 'step' }, 1400);
+
+		expect(history.state.past.map(({ before, after }) => [before, after])).toEqual([
+			[50, 53],
+			[53, 54]
+		]);
+	});
+
+	it('drops coalesced steps that return to where they started', () => {
+		const history = createKnobHistory();
+		history.record({ id: 'gain', before: 50, after: 51, gesture: 'step' }, 0);
+		history.record({ id: 'gain', before: 51, after: 50, gesture: 'step' }, 100);
+		expect(history.canUndo).toBe(false);
+	});
+
+	it('keeps steps of different knobs apart', () => {
+		const history = createKnobHistory();
+		history.record({ id: 'gain', before: 50, after: 51, gesture: 'step' }, 0);
+		history.record({ id: 'pan', before: 0, after: 1, gesture: 'step' }, 100);
+		expect(history.state.past).toHaveLength(2);
+	});
+
+	it('clears the redo entries on a new edit', () => {
+		const history = createKnobHistory();
+		const { knob } = createRecordedKnob(history, 'gain');
+		knob.handleSet(70);
+		history.undo();
+		knob.handleSet(20);
+
+		expect(history.canRedo).toBe(false);
+	});
+
+	it('keeps at most limit entries', () => {
+		const history = createKnobHistory({ limit: 2 });
+		history.record({ id: 'gain', before: 1, after: 2, gesture: 'set' });
+		history.record({ id: 'gain', before: 2, after: 3, gesture: 'set' });
+		history.record({ id: 'gain', before: 3, after: 4, gesture: 'set' });
+		expect(history.state.past.map(({ before }) => before)).toEqual([2, 3]);
+	});
+
+	it('drops entries of unregistered knobs', () => {
+		const history = createKnobHistory();
+		const { knob: gain } = createRecordedKnob(history, 'gain');
+		const { knob: pan, recorder } = createRecordedKnob(history, 'pan');
+		gain.handleSet(70);
+		pan.handleSet(10);
+		recorder.unregister();
+
+		expect(history.undo()).toBe(true);
+		expect(gain.state.value).toBe(50);
+		expect(pan.state.value).toBe(10);
+	});
+
+	it('does not apply an entry to a knob being dragged', () => {
+		const history = createKnobHistory();
+		const { knob } = createRecordedKnob(history, 'gain');
+		knob.handleSet(70);
+		knob.handleDeltaStart();
+
+		expect(history.undo()).toBe(false);
+		expect(knob.state.value).toBe(70);
+		expect(history.canUndo).toBe(true);
+	});
+});
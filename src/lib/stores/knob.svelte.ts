@@ -1,11 +1,45 @@
-import type { Callbacks, KnobState } from '../types.js';
+import type { Callbacks, InteractiveHookResult, KnobGesture, KnobState, Taper } from '../types.js';
+import { calculatePositionFromMouseAngle, snapPosition } from '../utils.js';
+import { getDeltaAngle, wrapPercentage } from '../utils/angles.js';
 import {
-	calculatePositionFromMouseAngle,
-	getValueFromPercentage,
 	clamp,
 	getPercentageFromValue,
-	snapPosition
-} from '../utils.js';
+	getValueFromPercentage,
+	snapPercentage
+} from '../utils/math.js';
+
+/**
+ * Number of keyboard steps across the dial when neither `keyboardStep` nor `steps` is set
+ */
+const DEFAULT_KEYBOARD_STEPS = 100;
+
+/**
+ * Angle in degrees on each side of a detent within which a drag sticks to it
+ */
+const DEFAULT_DETENT_CAPTURE = 5;
+
+/**
+ * Configuration fields that can be updated after initialization via `configure`
+ */
+type KnobStateConfiguration = Pick<
+	KnobState,
+	| 'min'
+	| 'max'
+	| 'multiRotation'
+	| 'endless'
+	| 'angleOffset'
+	| 'angleRange'
+	| 'size'
+	| 'steps'
+	| 'tracking'
+	| 'taper'
+	| 'keyboardStep'
+	| 'defaultValue'
+	| 'origin'
+	| 'detents'
+	| 'detentCapture'
+	| 'settleTolerance'
+>;
 
 /**
  * Configuration interface for knob initialization
@@ -14,14 +48,37 @@ interface KnobConfiguration extends Callbacks {
 	min: number;
 	max: number;
 	multiRotation: boolean;
+	/** Relative encoder mode: no range limits, one turn covers max - min */
+	endless?: boolean;
 	initialValue?: number | null;
 	angleOffset: number;
+	/** Signed dial sweep in degrees, negative when the value increases counter-clockwise */
 	angleRange: number;
 	size: number;
 	steps?: number;
 	readOnly: boolean;
 	tracking: boolean;
 	useMouseWheel: boolean;
+	taper?: Taper;
+	keyboardStep?: number;
+	defaultValue?: number;
+	origin?: number;
+	/** Values a drag sticks to within the capture angle before breaking free */
+	detents?: number[];
+	/** Angle in degrees on each side of a detent within which a drag sticks to it */
+	detentCapture?: number;
+	/** Called with the detent value when a drag enters a detent */
+	onDetent?: (value: number) => void;
+	/** Externally driven value shown next to the user-edited target (setpoint mode) */
+	actual?: number | null;
+	/** Maximum distance between actual and target to consider them settled */
+	settleTolerance?: number;
+	/** Called when the actual value reaches the target within the tolerance */
+	onSettled?: (value: number) => void;
+	/** Called with the relative change in endless mode, in value units and in turns */
+	onDelta?: (deltaValue: number, deltaTurns: number) => void;
+	/** Called once per completed user edit with the values before and after it (e.g. for undo) */
+	onCommit?: (before: number, after: number, gesture: KnobGesture) => void;
 }
 
 /**
@@ -33,6 +90,7 @@ export function createKnobState({
 	min,
 	max,
 	multiRotation,
+	endless = false,
 	initialValue,
 	angleOffset = 0,
 	angleRange = 360,
@@ -42,43 +100,114 @@ export function createKnobState({
 	onInteractiveChange,
 	onStart,
 	onEnd,
-	tracking
+	tracking,
+	taper = 'linear',
+	keyboardStep,
+	defaultValue,
+	origin,
+	detents,
+	detentCapture = DEFAULT_DETENT_CAPTURE,
+	onDetent,
+	actual = null,
+	settleTolerance = 0,
+	onSettled,
+	onDelta,
+	onCommit
 }: KnobConfiguration) {
 	console.debug('[createKnobState] Initializing with config:', {
 		min,
 		max,
 		multiRotation,
+		endless,
 		initialValue,
 		angleOffset,
 		angleRange,
 		size,
 		steps,
-		tracking
+		tracking,
+		taper,
+		keyboardStep,
+		defaultValue,
+		origin,
+		detents,
+		detentCapture,
+		actual,
+		settleTolerance
 	});
 
+	const initialTurns = endless ? ((initialValue ?? 0) - min) / (max - min) : 0;
+
 	const internalState = $state<KnobState>({
 		isActive: false,
 		min,
 		max,
 		multiRotation,
+		endless,
+		turns: initialTurns,
 		angleOffset,
 		angleRange,
 		mouseAngle: null,
-		percentage: initialValue ? (initialValue - min) / (max - min) : 0,
-		value: initialValue || 0,
+		percentage: endless
+			? wrapPercentage(initialTurns)
+			: initialValue !== null && initialValue !== undefined
+				? getPercentageFromValue({ min, max, value: initialValue, taper })
+				: 0,
+		value: initialValue ?? 0,
 		tracking,
 		size,
 		steps,
+		taper,
+		keyboardStep,
+		defaultValue,
+		origin,
+		detents,
+		detentCapture,
+		actual,
+		actualPercentage:
+			actual !== null ? getPercentageFromValue({ min, max, value: actual, taper }) : null,
+		settleTolerance,
+		isSettled: actual === null || Math.abs(actual - (initialValue ?? 0)) <= settleTolerance,
+		editable: false,
+		isEditing: false,
 		startPercentage: null,
 		startValue: null
 	});
 
+	/**
+	 * Unsnapped percentage followed during a drag, so that small moves accumulate
+	 * even when the displayed percentage is snapped
+	 */
+	let dragPercentage: number | null = null;
+
+	/**
+	 * Unsnapped turns followed during an endless drag
+	 */
+	let dragTurns: number | null = null;
+
+	/**
+	 * Detent the current drag is stuck to, null when free
+	 */
+	let activeDetent: number | null = null;
+
+	/**
+	 * Number of mounted inline value editors
+	 */
+	let editorCount = 0;
+
 	/**
 	 * Handles the start of user interaction with the knob
 	 * @param mouseAngle - Current mouse angle in degrees
+	 * @param hookResult - Interactive hook result for this event (steps override)
 	 */
-	function handleStart(mouseAngle: number) {
-		console.debug('[handleStart] Starting interaction at angle:', mouseAngle);
+	function handleStart(mouseAngle: number, hookResult: InteractiveHookResult = {}) {
+		console.debug('[handleStart] Starting interaction at angle:', mouseAngle, hookResult);
+
+		if (internalState.endless) {
+			// A relative encoder never jumps to the pointer, it only follows its rotation
+			handleDeltaStart();
+			internalState.mouseAngle = mouseAngle;
+			return;
+		}
 
 		const position = calculatePositionFromMouseAngle({
 			previousMouseAngle: null,
@@ -88,8 +217,13 @@ export function createKnobState({
 			percentage: internalState.percentage as number
 		});
 
-		const position2 = snapPosition(position, internalState, steps);
-		const value = getValueFromPercentage({ ...internalState, ...position2 });
+		const position2 = snapPosition(
+			position,
+			internalState,
+			hookResult.steps ?? internalState.steps
+		);
+		activeDetent = null;
+		const { percentage, value } = applyDetents(position.percentage, position2.percentage);
 
 		console.debug('[handleStart] Calculated position:', {
 			position,
@@ -99,9 +233,10 @@ export function createKnobState({
 
 		internalState.isActive = true;
 		internalState.mouseAngle = mouseAngle;
-		internalState.percentage = position2.percentage;
 		internalState.startPercentage = internalState.percentage;
 		internalState.startValue = internalState.value;
+		internalState.percentage = percentage;
+		dragPercentage = position.percentage;
 		internalState.value = value;
 
 		onStart?.();
@@ -114,25 +249,45 @@ export function createKnobState({
 	/**
 	 * Handles continuous movement during knob interaction
 	 * @param mouseAngle - Current mouse angle in degrees
+	 * @param hookResult - Interactive hook result for this event (steps and sensitivity overrides)
 	 */
-	function handleMove(mouseAngle: number) {
+	function handleMove(mouseAngle: number, hookResult: InteractiveHookResult = {}) {
 		if (!internalState.isActive) {
 			console.debug('[handleMove] Ignoring move - knob not active');
 			return;
 		}
 
-		console.debug('[handleMove] Processing movement at angle:', mouseAngle);
+		console.debug('[handleMove] Processing movement at angle:', mouseAngle, hookResult);
 
+		if (internalState.endless) {
+			const deltaAngle = getDeltaAngle(mouseAngle, internalState.mouseAngle ?? mouseAngle);
+			internalState.mouseAngle = mouseAngle;
+			// Ignore jumps across the knob center, like the bounded modes do
+			if (Math.abs(deltaAngle) >= 120) return;
+
+			// A counter-clockwise dial (negative angle range) turns the other way
+			const turnAngle = 360 * Math.sign(internalState.angleRange);
+			moveTurns((deltaAngle / turnAngle) * (hookResult.sensitivity ?? 1), hookResult);
+			return;
+		}
+
+		// A lower sensitivity spreads the same mouse movement over a larger virtual angle range
+		const sensitivity = hookResult.sensitivity ?? 1;
 		const position = calculatePositionFromMouseAngle({
 			previousMouseAngle: internalState.mouseAngle,
-			previousPercentage: internalState.percentage,
+			previousPercentage: dragPercentage,
 			...internalState,
+			angleRange: internalState.angleRange / sensitivity,
 			mouseAngle,
 			percentage: internalState.percentage as number
 		});
 
-		const position2 = snapPosition(position, internalState, steps);
-		const value = getValueFromPercentage({ ...internalState, ...position2 });
+		const position2 = snapPosition(
+			position,
+			internalState,
+			hookResult.steps ?? internalState.steps
+		);
+		const { percentage, value } = applyDetents(position.percentage, position2.percentage);
 
 		console.debug('[handleMove] Calculated position:', {
 			position,
@@ -141,8 +296,69 @@ export function createKnobState({
 		});
 
 		internalState.mouseAngle = mouseAngle;
-		internalState.percentage = position2.percentage;
+		internalState.percentage = percentage;
+		internalState.value = value;
+		dragPercentage = position.percentage;
+
+		onInteractiveChange?.(value);
+		if (internalState.tracking) {
+			onChange?.(value);
+		}
+	}
+
+	/**
+	 * Handles the start of a delta-based interaction (linear drag modes).
+	 * Unlike `handleStart`, the value does not jump to the pointer position.
+	 */
+	function handleDeltaStart() {
+		console.debug('[handleDeltaStart] Starting delta interaction at:', internalState.percentage);
+
+		internalState.isActive = true;
+		internalState.startPercentage = internalState.percentage;
+		internalState.startValue = internalState.value;
+		dragPercentage = internalState.percentage ?? 0;
+		dragTurns = internalState.turns;
+		activeDetent = null;
+
+		onStart?.();
+	}
+
+	/**
+	 * Handles continuous movement during a delta-based interaction
+	 * @param deltaPercentage - Change in percentage since the last move (1 = full range)
+	 * @param hookResult - Interactive hook result for this event (steps and sensitivity overrides)
+	 */
+	function handleDeltaMove(deltaPercentage: number, hookResult: InteractiveHookResult = {}) {
+		if (!internalState.isActive || dragPercentage === null) {
+			console.debug('[handleDeltaMove] Ignoring move - knob not active');
+			return;
+		}
+
+		console.debug('[handleDeltaMove] Processing movement:', deltaPercentage, hookResult);
+
+		if (internalState.endless) {
+			// Sweeping dragPixels covers one turn
+			moveTurns(deltaPercentage * (hookResult.sensitivity ?? 1), hookResult);
+			return;
+		}
+
+		const rawPercentage = dragPercentage + deltaPercentage * (hookResult.sensitivity ?? 1);
+		// Only endless knobs go past the range; multiRotation still stops at min and max
+		const percentage = clamp(0, 1, rawPercentage);
+		const steps = hookResult.steps ?? internalState.steps;
+		const snappedPercentage = steps ? snapPercentage(percentage, steps) : percentage;
+		const detentPosition = applyDetents(percentage, snappedPercentage);
+		const { value } = detentPosition;
+
+		console.debug('[handleDeltaMove] Calculated position:', {
+			percentage,
+			snappedPercentage,
+			value
+		});
+
+		internalState.percentage = detentPosition.percentage;
 		internalState.value = value;
+		dragPercentage = percentage;
 
 		onInteractiveChange?.(value);
 		if (internalState.tracking) {
@@ -150,10 +366,90 @@ export function createKnobState({
 		}
 	}
 
+	/**
+	 * Finds the closest detent within the capture angle of a dial position
+	 * @param percentage - Unsnapped percentage under the pointer
+	 * @returns Detent value, or null when no detent is close enough
+	 */
+	function findDetent(percentage: number) {
+		const { detents, detentCapture, angleRange } = internalState;
+		if (!detents?.length || internalState.endless) return null;
+
+		let closestDetent: number | null = null;
+		let closestDistance = Infinity;
+		for (const detent of detents) {
+			const detentPercentage = getPercentageFromValue({ ...internalState, value: detent });
+			const distance = Math.abs(detentPercentage - percentage) * Math.abs(angleRange);
+			if (distance <= detentCapture && distance < closestDistance) {
+				closestDetent = detent;
+				closestDistance = distance;
+			}
+		}
+		return closestDetent;
+	}
+
+	/**
+	 * Sticks a drag position to a detent within the capture angle, so the value
+	 * holds there until the pointer moves past the capture angle.
+	 * Fires `onDetent` when a detent is entered.
+	 * @param percentage - Unsnapped percentage under the pointer
+	 * @param snappedPercentage - Percentage snapped to steps, used outside detents
+	 * @returns Resulting percentage and value
+	 */
+	function applyDetents(percentage: number, snappedPercentage: number) {
+		const detent = findDetent(percentage);
+		if (detent !== activeDetent) {
+			console.debug('[applyDetents] Detent changed:', { from: activeDetent, to: detent });
+			activeDetent = detent;
+			if (detent !== null) onDetent?.(detent);
+		}
+
+		if (detent === null) {
+			return {
+				percentage: snappedPercentage,
+				value: getValueFromPercentage({ ...internalState, percentage: snappedPercentage })
+			};
+		}
+
+		return {
+			percentage: getPercentageFromValue({ ...internalState, value: detent }),
+			value: detent
+		};
+	}
+
+	/**
+	 * Moves the knob along with another knob during a linked drag (see `createKnobGroup`).
+	 * The gesture is started with `handleDeltaStart` and finished with `handleEnd`.
+	 * @param value - New value, clamped to the range unless endless
+	 */
+	function handleFollow(value: number) {
+		if (!internalState.isActive) {
+			console.debug('[handleFollow] Ignoring follow - knob not active');
+			return;
+		}
+
+		const previousValue = internalState.value;
+		if (internalState.endless) {
+			applyTurns(getTurnsFromValue(value));
+		} else {
+			const clampedValue = clampToRange(value);
+			internalState.value = clampedValue;
+			internalState.percentage = getPercentageFromValue({ ...internalState, value: clampedValue });
+		}
+		if (internalState.value === null || internalState.value === previousValue) return;
+
+		console.debug('[handleFollow] Following to:', internalState.value);
+		onInteractiveChange?.(internalState.value);
+		if (internalState.tracking) {
+			onChange?.(internalState.value);
+		}
+	}
+
 	/**
 	 * Handles the end of knob interaction
+	 * @param gesture - Kind of edit reported to `onCommit`
 	 */
-	function handleEnd() {
+	function handleEnd(gesture: KnobGesture = 'drag') {
 		console.debug('[handleEnd] Ending interaction, current state:', {
 			value: internalState.value,
 			tracking: internalState.tracking
@@ -163,11 +459,19 @@ export function createKnobState({
 			onChange?.(internalState.value);
 		}
 
+		const { isActive, startValue, value } = internalState;
+		if (isActive && startValue !== null && value !== null && value !== startValue) {
+			onCommit?.(startValue, value, gesture);
+		}
+
 		internalState.isActive = false;
 		internalState.startPercentage = null;
 		internalState.startValue = null;
+		dragPercentage = null;
+		dragTurns = null;
 
 		onEnd?.();
+		checkSettled();
 	}
 
 	/**
@@ -180,6 +484,8 @@ export function createKnobState({
 		});
 
 		if (internalState.startValue !== null) {
+			// Emit the reverse delta so relative consumers undo the drag too
+			if (internalState.endless) applyTurns(getTurnsFromValue(internalState.startValue));
 			internalState.value = internalState.startValue;
 			internalState.percentage = internalState.startPercentage;
 
@@ -191,15 +497,124 @@ export function createKnobState({
 		internalState.isActive = false;
 		internalState.startPercentage = null;
 		internalState.startValue = null;
+		dragPercentage = null;
+		dragTurns = null;
 
 		onEnd?.();
+		checkSettled();
+	}
+
+	/**
+	 * Converts a value to turns in endless mode, where one turn covers max - min
+	 * @param value - Value to convert
+	 */
+	function getTurnsFromValue(value: number) {
+		return (value - internalState.min) / (internalState.max - internalState.min);
+	}
+
+	/**
+	 * Moves an endless knob to the given turns and emits `onDelta`.
+	 * The percentage is the wrapped position within the current turn.
+	 * @param turns - New accumulated turns
+	 * @returns Whether the value changed
+	 */
+	function applyTurns(turns: number) {
+		const previousValue = internalState.value ?? internalState.min;
+		const value = internalState.min + turns * (internalState.max - internalState.min);
+		const deltaTurns = turns - internalState.turns;
+		if (deltaTurns === 0) return false;
+
+		console.debug('[applyTurns] New turns:', { turns, deltaTurns, value });
+
+		internalState.turns = turns;
+		internalState.value = value;
+		internalState.percentage = wrapPercentage(turns);
+
+		onDelta?.(value - previousValue, deltaTurns);
+		return true;
+	}
+
+	/**
+	 * Accumulates a drag on an endless knob, snapping to steps per turn
+	 * @param deltaTurns - Unsnapped change in turns
+	 * @param hookResult - Interactive hook result for this event (steps override)
+	 */
+	function moveTurns(deltaTurns: number, hookResult: InteractiveHookResult) {
+		if (dragTurns === null) return;
+
+		dragTurns += deltaTurns;
+		const steps = hookResult.steps ?? internalState.steps;
+		if (!applyTurns(steps ? snapPercentage(dragTurns, steps) : dragTurns)) return;
+
+		const value = internalState.value as number;
+		onInteractiveChange?.(value);
+		if (internalState.tracking) {
+			onChange?.(value);
+		}
+	}
+
+	/**
+	 * Applies a discrete change to an endless knob and notifies listeners
+	 * @param turns - New accumulated turns
+	 * @param gesture - Kind of edit reported to `onCommit`
+	 */
+	function commitTurns(turns: number, gesture: KnobGesture) {
+		const previousValue = internalState.value;
+		if (!applyTurns(turns)) return;
+
+		const value = internalState.value as number;
+		onInteractiveChange?.(value);
+		onChange?.(value);
+		if (previousValue !== null) onCommit?.(previousValue, value, gesture);
+		checkSettled();
+	}
+
+	/**
+	 * Clamps a value to the current range
+	 * @param value - Value to clamp
+	 */
+	function clampToRange(value: number) {
+		return clamp(
+			Math.min(internalState.min, internalState.max),
+			Math.max(internalState.min, internalState.max),
+			value
+		);
+	}
+
+	/**
+	 * Applies a discrete value change and notifies listeners
+	 * @param value - New value
+	 * @param percentage - Percentage matching the new value
+	 * @param gesture - Kind of edit reported to `onCommit`
+	 */
+	function commitStep(value: number, percentage: number, gesture: KnobGesture) {
+		console.debug('[commitStep] New state:', {
+			value,
+			percentage,
+			gesture
+		});
+
+		const previousValue = internalState.value;
+		internalState.value = value;
+		internalState.percentage = percentage;
+
+		onInteractiveChange?.(value);
+		onChange?.(value);
+		if (previousValue !== null && previousValue !== value) {
+			onCommit?.(previousValue, value, gesture);
+		}
+		checkSettled();
 	}
 
 	/**
 	 * Handles step-wise value changes (e.g. from keyboard)
-	 * @param direction - Direction of change (1 or -1)
+	 * Positive steps increase the value, also on ranges running from high to low.
+	 * One step is `keyboardStep` in value units when set, otherwise one snap step
+	 * (or 1/100 of the dial when not snapping). Steps crossing the origin stop on it.
+	 * @param direction - Number of steps to move, negative to decrease (fractions allowed)
+	 * @param gesture - Kind of edit reported to `onCommit`
 	 */
-	function handleStep(direction: number) {
+	function handleStep(direction: number, gesture: KnobGesture = 'step') {
 		if (internalState.value === null) {
 			console.debug('[handleStep] Ignoring step - no current value');
 			return;
@@ -208,31 +623,260 @@ export function createKnobState({
 		console.debug('[handleStep] Processing step:', {
 			direction,
 			currentValue: internalState.value,
+			keyboardStep: internalState.keyboardStep,
 			min: internalState.min,
 			max: internalState.max
 		});
 
-		const value = clamp(internalState.min, internalState.max, internalState.value + direction);
-		const percentage = getPercentageFromValue({ ...internalState, value });
+		const { steps, keyboardStep } = internalState;
+		// Dial direction of an increasing value: backwards on ranges running from high to low
+		const dialDirection = Math.sign(internalState.max - internalState.min) || 1;
+		// Fine steps cannot go below one snap step
+		const stepCount = steps
+			? Math.sign(direction) * Math.max(1, Math.round(Math.abs(direction)))
+			: direction;
+
+		if (internalState.endless) {
+			const stepTurns =
+				keyboardStep !== undefined
+					? keyboardStep / Math.abs(internalState.max - internalState.min)
+					: 1 / (steps ?? DEFAULT_KEYBOARD_STEPS);
+			const rawTurns = internalState.turns + stepCount * stepTurns * dialDirection;
+			commitTurns(steps ? snapPercentage(rawTurns, steps) : rawTurns, gesture);
+			return;
+		}
 
-		console.debug('[handleStep] New state:', {
-			value,
-			percentage
-		});
+		let value: number;
+		let percentage: number;
+		if (keyboardStep !== undefined) {
+			const rawValue = clampToRange(internalState.value + stepCount * keyboardStep);
+			const rawPercentage = getPercentageFromValue({ ...internalState, value: rawValue });
+			percentage = steps ? snapPercentage(rawPercentage, steps) : rawPercentage;
+			value = steps ? getValueFromPercentage({ ...internalState, percentage }) : rawValue;
+		} else {
+			const stepPercentage = 1 / (steps ?? DEFAULT_KEYBOARD_STEPS);
+			const rawPercentage = clamp(
+				0,
+				1,
+				(internalState.percentage ?? 0) + stepCount * stepPercentage * dialDirection
+			);
+			percentage = steps ? snapPercentage(rawPercentage, steps) : rawPercentage;
+			value = getValueFromPercentage({ ...internalState, percentage });
+		}
 
-		internalState.value = value;
-		internalState.percentage = percentage;
+		// The origin acts as a soft detent: a step crossing it stops on it
+		const { origin } = internalState;
+		if (origin !== undefined && (internalState.value - origin) * (value - origin) < 0) {
+			console.debug('[handleStep] Stopping at origin:', origin);
+			value = origin;
+			percentage = getPercentageFromValue({ ...internalState, value: origin });
+		}
 
-		onInteractiveChange?.(value);
-		onChange?.(value);
+		commitStep(value, percentage, gesture);
+	}
+
+	/**
+	 * Handles jumping straight to a value (e.g. Home/End keys)
+	 * @param value - Target value, clamped to the current range
+	 * @param gesture - Kind of edit reported to `onCommit`
+	 */
+	function handleSet(value: number, gesture: KnobGesture = 'set') {
+		console.debug('[handleSet] Setting value:', value);
+
+		if (internalState.endless) {
+			commitTurns(getTurnsFromValue(value), gesture);
+			return;
+		}
+
+		const clampedValue = clampToRange(value);
+		commitStep(
+			clampedValue,
+			getPercentageFromValue({ ...internalState, value: clampedValue }),
+			gesture
+		);
+	}
+
+	/**
+	 * Handles resetting the value to `defaultValue` (e.g. double-click)
+	 */
+	function handleReset() {
+		if (internalState.defaultValue === undefined) {
+			console.debug('[handleReset] Ignoring reset - no default value');
+			return;
+		}
+
+		console.debug('[handleReset] Resetting to default value:', internalState.defaultValue);
+		handleSet(internalState.defaultValue);
+	}
+
+	/**
+	 * Registers an inline value editor (e.g. an editable `Value`), enabling edit mode
+	 * @returns Function that unregisters the editor
+	 */
+	function registerEditor() {
+		editorCount++;
+		internalState.editable = true;
+		console.debug('[registerEditor] Editor registered:', editorCount);
+
+		return () => {
+			editorCount--;
+			internalState.editable = editorCount > 0;
+			if (!internalState.editable) internalState.isEditing = false;
+			console.debug('[registerEditor] Editor unregistered:', editorCount);
+		};
+	}
+
+	/**
+	 * Handles opening the inline value editor (e.g. Enter key or click on the value)
+	 */
+	function handleEditStart() {
+		if (!internalState.editable || internalState.value === null || internalState.isActive) {
+			console.debug('[handleEditStart] Ignoring edit - no editor or no value');
+			return;
+		}
+
+		console.debug('[handleEditStart] Opening editor at value:', internalState.value);
+		internalState.isEditing = true;
+	}
+
+	/**
+	 * Handles committing a typed value from the inline editor.
+	 * The value is clamped to the range and snapped to steps when snapping is enabled.
+	 * @param value - Parsed value
+	 */
+	function handleEditCommit(value: number) {
+		if (!internalState.isEditing) return;
+
+		console.debug('[handleEditCommit] Committing typed value:', value);
+		internalState.isEditing = false;
+
+		if (internalState.endless) {
+			handleSet(value);
+			return;
+		}
+
+		const clampedValue = clampToRange(value);
+		const percentage = getPercentageFromValue({ ...internalState, value: clampedValue });
+		if (!internalState.steps) {
+			commitStep(clampedValue, percentage, 'set');
+			return;
+		}
+
+		const snappedPercentage = snapPercentage(percentage, internalState.steps);
+		commitStep(
+			getValueFromPercentage({ ...internalState, percentage: snappedPercentage }),
+			snappedPercentage,
+			'set'
+		);
+	}
+
+	/**
+	 * Handles closing the inline editor without changing the value
+	 */
+	function handleEditCancel() {
+		console.debug('[handleEditCancel] Closing editor, keeping value:', internalState.value);
+		internalState.isEditing = false;
+	}
+
+	/**
+	 * Updates the settled flag and fires `onSettled` when the actual value
+	 * reaches the target. Nothing settles while the user is interacting.
+	 */
+	function checkSettled() {
+		const { actual, value } = internalState;
+		if (actual === null || value === null || internalState.isActive) return;
+
+		const isSettled = Math.abs(actual - value) <= internalState.settleTolerance;
+		if (isSettled === internalState.isSettled) return;
+
+		console.debug('[checkSettled] Settled state changed:', { actual, value, isSettled });
+		internalState.isSettled = isSettled;
+		if (isSettled) onSettled?.(value);
+	}
+
+	/**
+	 * Sets the externally driven actual value (setpoint mode).
+	 * Never touches the user-edited value, so streaming updates cannot overwrite edits.
+	 * @param actual - New actual value, or null to leave setpoint mode
+	 */
+	function setActual(actual: number | null) {
+		console.debug('[setActual] Setting actual value:', actual);
+
+		internalState.actual = actual;
+		internalState.actualPercentage =
+			actual !== null ? getPercentageFromValue({ ...internalState, value: actual }) : null;
+		checkSettled();
+	}
+
+	/**
+	 * Sets the value from outside an interaction (e.g. controlled value sync)
+	 * without firing any callbacks
+	 * @param value - New value, clamped to the current range unless endless
+	 */
+	function setValue(value: number) {
+		if (internalState.endless) {
+			console.debug('[setValue] Setting endless value:', value);
+			internalState.value = value;
+			internalState.turns = getTurnsFromValue(value);
+			internalState.percentage = wrapPercentage(internalState.turns);
+			checkSettled();
+			return;
+		}
+
+		const clampedValue = clampToRange(value);
+		console.debug('[setValue] Setting value:', { value, clampedValue });
+
+		internalState.value = clampedValue;
+		internalState.percentage = getPercentageFromValue({ ...internalState, value: clampedValue });
+		checkSettled();
+	}
+
+	/**
+	 * Applies configuration changes after creation.
+	 * When the range or taper changes, the current value is kept (clamped to the new range)
+	 * and its percentage is re-projected onto the new mapping.
+	 * @param config - Configuration fields to update
+	 */
+	function configure(config: Partial<KnobStateConfiguration>) {
+		console.debug('[configure] Updating configuration:', config);
+
+		const mappingChanged =
+			(config.min !== undefined && config.min !== internalState.min) ||
+			(config.max !== undefined && config.max !== internalState.max) ||
+			(config.taper !== undefined && config.taper !== internalState.taper) ||
+			(config.endless !== undefined && config.endless !== internalState.endless);
+
+		Object.assign(internalState, config);
+
+		if (mappingChanged) setActual(internalState.actual);
+		if (!mappingChanged || internalState.value === null) return;
+
+		const previousValue = internalState.value;
+		setValue(previousValue);
+
+		if (internalState.value !== previousValue && !internalState.isActive) {
+			onChange?.(internalState.value);
+		}
 	}
 
 	return {
 		state: internalState,
+		configure,
+		setValue,
 		handleStart,
 		handleMove,
+		handleDeltaStart,
+		handleDeltaMove,
+		handleFollow,
 		handleEnd,
 		handleCancel,
-		handleStep
+		handleStep,
+		handleSet,
+		handleReset,
+		registerEditor,
+		handleEditStart,
+		handleEditCommit,
+		handleEditCancel,
+		setActual
 	};
 }
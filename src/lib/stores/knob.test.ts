@@ -0,0 +1,497 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createKnobState } from './knob.svelte.js';
+
+type KnobConfiguration = Parameters<typeof createKnobState>[0];
+
+/**
+ * Creates a knob store with no-op callbacks
+ */
+const createKnob = (config: Partial<KnobConfiguration> = {}) =>
+	createKnobState({
+		min: 0,
+		max: 100,
+		initialValue: null,
+		multiRotation: false,
+		angleOffset: 0,
+		angleRange: 360,
+		size: 100,
+		readOnly: false,
+		tracking: true,
+		useMouseWheel: true,
+		onChange: vi.fn(),
+		onInteractiveChange: vi.fn(),
+		onStart: vi.fn(),
+		onEnd: vi.fn(),
+		...config
+	} as KnobConfiguration);
+
+describe('createKnobState', () => {
+	it('starts an initial value of zero at its position on a range crossing zero', () => {
+		const knob = createKnob({ min: -50, max: 50, initialValue: 0 });
+		expect(knob.state.value).toBe(0);
+		expect(knob.state.percentage).toBe(0.5);
+	});
+
+	it('steps from an initial value of zero', () => {
+		const knob = createKnob({ min: -50, max: 50, initialValue: 0 });
+		knob.handleStep(1);
+		expect(knob.state.value).toBe(1);
+	});
+
+	it('starts an endless knob with an initial value of zero at its turns', () => {
+		const knob = createKnob({ min: -50, max: 50, initialValue: 0, endless: true });
+		expect(knob.state.turns).toBe(0.5);
+		expect(knob.state.percentage).toBe(0.5);
+	});
+
+	it('is settled when the actual value matches an initial value of zero', () => {
+		const knob = createKnob({ min: -50, max: 50, initialValue: 0, actual: 0 });
+		expect(knob.state.isSettled).toBe(true);
+	});
+});
+
+describe('configure', () => {
+	it('keeps the value and re-projects its position when the range changes', () => {
+		const onChange = vi.fn();
+		const knob = createKnob({ initialValue: 50, onChange });
+		knob.configure({ min: 0, max: 200 });
+
+		expect(knob.state.value).toBe(50);
+		expect(knob.state.percentage).toBe(0.25);
+		expect(onChange).not.toHaveBeenCalled();
+	});
+
+	it('clamps the value into a new range and reports it', () => {
+		const onChange = vi.fn();
+		const knob = createKnob({ initialValue: 80, onChange });
+		knob.configure({ max: 50 });
+
+		expect(knob.state.value).toBe(50);
+		expect(knob.state.percentage).toBe(1);
+		expect(onChange).toHaveBeenCalledWith(50);
+	});
+
+	it('steps within the updated range', () => {
+		const knob = createKnob({ initialValue: 10 });
+		knob.configure({ min: 0, max: 10 });
+		knob.handleStep(1);
+		expect(knob.state.value).toBe(10);
+	});
+
+	it('clears steps when they are set to undefined', () => {
+		const knob = createKnob({ steps: 4 });
+		knob.configure({ steps: undefined });
+		expect(knob.state.steps).toBeUndefined();
+	});
+});
+
+describe('taper', () => {
+	it('places the initial value at its tapered position', () => {
+		const knob = createKnob({ min: 20, max: 20000, initialValue: 632.455532, taper: 'log' });
+		expect(knob.state.percentage).toBeCloseTo(0.5);
+	});
+
+	it('re-projects the value when the taper changes', () => {
+		const knob = createKnob({ min: 20, max: 20000, initialValue: 2000 });
+		knob.configure({ taper: 'log' });
+
+		expect(knob.state.value).toBe(2000);
+		expect(knob.state.percentage).toBeCloseTo(2 / 3);
+	});
+
+	it('steps along the dial and maps the position through the taper', () => {
+		const knob = createKnob({ min: 1, max: 100, initialValue: 10, taper: 'log' });
+		knob.handleStep(1);
+
+		expect(knob.state.percentage).toBeCloseTo(0.51);
+		expect(knob.state.value).toBeCloseTo(Math.pow(100, 0.51));
+	});
+
+	it('steps by keyboardStep in value units along the taper', () => {
+		const knob = createKnob({ min: 1, max: 100, initialValue: 10, taper: 'log', keyboardStep: 1 });
+		knob.handleStep(1);
+
+		expect(knob.state.value).toBe(11);
+		expect(knob.state.percentage).toBeCloseTo(Math.log(11) / Math.log(100));
+	});
+});
+
+describe('interactive hook results', () => {
+	it('snaps to the steps returned for a move', () => {
+		const knob = createKnob({ initialValue: 0 });
+		knob.handleStart(100, { steps: 10 });
+		expect(knob.state.value).toBeCloseTo(30);
+
+		knob.handleMove(130, { steps: 4 });
+		expect(knob.state.value).toBe(25);
+
+		knob.handleMove(130);
+		expect(knob.state.value).toBeCloseTo((130 / 360) * 100);
+	});
+
+	it('accumulates small moves while snapping', () => {
+		const knob = createKnob({ initialValue: 0 });
+		knob.handleStart(90, { steps: 4 });
+		for (let angle = 95; angle <= 140; angle += 5) knob.handleMove(angle, { steps: 4 });
+		expect(knob.state.value).toBe(50);
+	});
+
+	it('scales the drag by the returned sensitivity', () => {
+		const knob = createKnob({ initialValue: 0 });
+		knob.handleStart(90);
+		knob.handleMove(126, { sensitivity: 0.1 });
+		expect(knob.state.value).toBeCloseTo(26);
+	});
+});
+
+describe('handleDeltaMove', () => {
+	it('moves from the current position and clamps to the range', () => {
+		const onChange = vi.fn();
+		const knob = createKnob({ initialValue: 50, onChange });
+		knob.handleDeltaStart();
+		knob.handleDeltaMove(0.2);
+		expect(knob.state.value).toBeCloseTo(70);
+		knob.handleDeltaMove(0.5);
+		expect(knob.state.value).toBe(100);
+		expect(onChange).toHaveBeenLastCalledWith(100);
+	});
+
+	it('clamps to the range with multiRotation', () => {
+		const knob = createKnob({ initialValue: 90, multiRotation: true });
+		knob.handleDeltaStart();
+		knob.handleDeltaMove(0.5);
+		expect(knob.state.value).toBe(100);
+		expect(knob.state.percentage).toBe(1);
+		knob.handleDeltaMove(-0.2);
+		expect(knob.state.value).toBeCloseTo(80);
+	});
+
+	it('snaps while accumulating the unsnapped position', () => {
+		const knob = createKnob({ initialValue: 0, steps: 4 });
+		knob.handleDeltaStart();
+		knob.handleDeltaMove(0.1);
+		expect(knob.state.value).toBe(0);
+		knob.handleDeltaMove(0.1);
+		expect(knob.state.value).toBe(25);
+	});
+
+	it('reverts to the starting value when cancelled', () => {
+		const knob = createKnob({ initialValue: 50 });
+		knob.handleDeltaStart();
+		knob.handleDeltaMove(0.3);
+		knob.handleCancel();
+		expect(knob.state.value).toBe(50);
+	});
+});
+
+describe('inline editing', () => {
+	it('opens only while an editor is registered', () => {
+		const knob = createKnob({ initialValue: 50 });
+		knob.handleEditStart();
+		expect(knob.state.isEditing).toBe(false);
+
+		const unregister = knob.registerEditor();
+		knob.handleEditStart();
+		expect(knob.state.isEditing).toBe(true);
+
+		unregister();
+		expect(knob.state.editable).toBe(false);
+		expect(knob.state.isEditing).toBe(false);
+	});
+
+	it('clamps and snaps a typed value and notifies', () => {
+		const onChange = vi.fn();
+		const knob = createKnob({ initialValue: 50, steps: 10, onChange });
+		knob.registerEditor();
+
+		knob.handleEditStart();
+		knob.handleEditCommit(43);
+		expect(knob.state.value).toBe(40);
+		expect(knob.state.isEditing).toBe(false);
+		expect(onChange).toHaveBeenCalledWith(40);
+
+		knob.handleEditStart();
+		knob.handleEditCommit(250);
+		expect(knob.state.value).toBe(100);
+	});
+
+	it('keeps the value when cancelled', () => {
+		const onChange = vi.fn();
+		const knob = createKnob({ initialValue: 50, onChange });
+		knob.registerEditor();
+		knob.handleEditStart();
+		knob.handleEditCancel();
+		knob.handleEditCommit(20);
+
+		expect(knob.state.value).toBe(50);
+		expect(onChange).not.toHaveBeenCalled();
+	});
+});
+
+describe('origin', () => {
+	it('stops a step crossing the origin on it', () => {
+		const knob = createKnob({ min: -50, max: 50, initialValue: -3, keyboardStep: 5, origin: 0 });
+		knob.handleStep(1);
+		expect(knob.state.value).toBe(0);
+		expect(knob.state.percentage).toBe(0.5);
+
+		knob.handleStep(1);
+		expect(knob.state.value).toBe(5);
+		knob.handleStep(-10);
+		expect(knob.state.value).toBe(0);
+	});
+
+	it('stops steps along the dial on the origin', () => {
+		const knob = createKnob({ min: -1, max: 1, initialValue: 0.9, steps: 3, origin: 0.1 });
+		knob.handleStep(-1);
+		expect(knob.state.value).toBeCloseTo(0.333);
+		knob.handleStep(-1);
+		expect(knob.state.value).toBe(0.1);
+	});
+});
+
+describe('setpoint mode', () => {
+	it('follows the actual value without touching the target', () => {
+		const onChange = vi.fn();
+		const knob = createKnob({ initialValue: 60, actual: 10, onChange });
+		expect(knob.state.actualPercentage).toBe(0.1);
+
+		knob.setActual(30);
+		expect(knob.state.value).toBe(60);
+		expect(knob.state.actualPercentage).toBe(0.3);
+		expect(onChange).not.toHaveBeenCalled();
+	});
+
+	it('settles when the actual value reaches the target within the tolerance', () => {
+		const onSettled = vi.fn();
+		const knob = createKnob({ initialValue: 60, actual: 10, settleTolerance: 1, onSettled });
+		expect(knob.state.isSettled).toBe(false);
+
+		knob.setActual(59.5);
+		expect(knob.state.isSettled).toBe(true);
+		expect(onSettled).toHaveBeenCalledExactlyOnceWith(60);
+
+		knob.setActual(60);
+		expect(onSettled).toHaveBeenCalledTimes(1);
+	});
+
+	it('does not settle while the user is dragging', () => {
+		const onSettled = vi.fn();
+		const knob = createKnob({ initialValue: 60, actual: 10, onSettled });
+		knob.handleDeltaStart();
+		knob.setActual(60);
+		expect(onSettled).not.toHaveBeenCalled();
+
+		knob.handleEnd();
+		expect(onSettled).toHaveBeenCalledWith(60);
+	});
+
+	it('unsettles when the target is edited away from the actual value', () => {
+		const knob = createKnob({ initialValue: 60, actual: 60, keyboardStep: 5 });
+		expect(knob.state.isSettled).toBe(true);
+		knob.handleStep(1);
+		expect(knob.state.isSettled).toBe(false);
+	});
+});
+
+describe('endless mode', () => {
+	it('accumulates turns past the range and reports deltas', () => {
+		const onDelta = vi.fn();
+		const knob = createKnob({ min: 0, max: 10, initialValue: 0, endless: true, onDelta });
+		knob.handleStart(0);
+		for (let angle = 30; angle <= 450; angle += 30) knob.handleMove(angle % 360);
+		knob.handleEnd();
+
+		expect(knob.state.turns).toBeCloseTo(1.25);
+		expect(knob.state.value).toBeCloseTo(12.5);
+		expect(knob.state.percentage).toBeCloseTo(0.25);
+		expect(onDelta).toHaveBeenCalledTimes(15);
+		expect(onDelta.mock.calls[0][0]).toBeCloseTo(30 / 36);
+		expect(onDelta.mock.calls[0][1]).toBeCloseTo(1 / 12);
+	});
+
+	it('does not jump to the pointer when pressed', () => {
+		const knob = createKnob({ min: 0, max: 10, initialValue: 3, endless: true });
+		knob.handleStart(180);
+		expect(knob.state.value).toBe(3);
+	});
+
+	it('steps below the minimum', () => {
+		const onDelta = vi.fn();
+		const knob = createKnob({
+			min: 0,
+			max: 10,
+			initialValue: 0,
+			endless: true,
+			steps: 10,
+			onDelta
+		});
+		knob.handleStep(-1);
+		expect(knob.state.value).toBeCloseTo(-1);
+		expect(knob.state.percentage).toBeCloseTo(0.9);
+		expect(onDelta).toHaveBeenCalledWith(expect.closeTo(-1), expect.closeTo(-0.1));
+	});
+
+	it('reports the reverse delta when a drag is cancelled', () => {
+		const onDelta = vi.fn();
+		const knob = createKnob({ min: 0, max: 10, initialValue: 0, endless: true, onDelta });
+		knob.handleDeltaStart();
+		knob.handleDeltaMove(1.5);
+		knob.handleCancel();
+
+		expect(knob.state.value).toBe(0);
+		expect(onDelta).toHaveBeenLastCalledWith(-15, -1.5);
+	});
+});
+
+describe('detents', () => {
+	it('sticks to a detent within the capture angle and breaks free past it', () => {
+		const knob = createKnob({ initialValue: 0, detents: [50], detentCapture: 5 });
+		knob.handleStart(170);
+		expect(knob.state.value).toBeCloseTo(170 / 3.6);
+
+		knob.handleMove(176);
+		expect(knob.state.value).toBe(50);
+		expect(knob.state.percentage).toBe(0.5);
+
+		knob.handleMove(184);
+		expect(knob.state.value).toBe(50);
+
+		knob.handleMove(190);
+		expect(knob.state.value).toBeCloseTo(190 / 3.6);
+	});
+
+	it('calls onDetent once each time a detent is entered', () => {
+		const onDetent = vi.fn();
+		const knob = createKnob({ initialValue: 0, detents: [25, 50], onDetent });
+		knob.handleStart(80);
+		knob.handleMove(88);
+		knob.handleMove(92);
+		knob.handleMove(120);
+		knob.handleMove(180);
+		knob.handleMove(100);
+		knob.handleMove(90);
+
+		expect(onDetent.mock.calls).toEqual([[25], [50], [25]]);
+	});
+
+	it('applies to relative drags', () => {
+		const onDetent = vi.fn();
+		const knob = createKnob({ initialValue: 40, detents: [50], onDetent });
+		knob.handleDeltaStart();
+		knob.handleDeltaMove(0.09);
+
+		expect(knob.state.value).toBe(50);
+		expect(onDetent).toHaveBeenCalledWith(50);
+	});
+
+	it('is ignored in endless mode', () => {
+		const onDetent = vi.fn();
+		const knob = createKnob({ initialValue: 0, endless: true, detents: [50], onDetent });
+		knob.handleDeltaStart();
+		knob.handleDeltaMove(0.49);
+
+		expect(knob.state.value).toBeCloseTo(49);
+		expect(onDetent).not.toHaveBeenCalled();
+	});
+});
+
+describe('direction', () => {
+	it('follows the pointer counter-clockwise on a negative angle range', () => {
+		const knob = createKnob({ initialValue: 0, angleRange: -360 });
+		knob.handleStart(270);
+		expect(knob.state.value).toBeCloseTo(25);
+	});
+
+	it('maps the dial from min to max on a range running from high to low', () => {
+		const knob = createKnob({ min: 100, max: 0, initialValue: 100 });
+		expect(knob.state.percentage).toBeCloseTo(0);
+
+		knob.handleStart(90);
+		expect(knob.state.value).toBeCloseTo(75);
+	});
+
+	it('steps the value up on a range running from high to low', () => {
+		const knob = createKnob({ min: 100, max: 0, initialValue: 50, steps: 10 });
+		knob.handleStep(1);
+		expect(knob.state.value).toBeCloseTo(60);
+		expect(knob.state.percentage).toBeCloseTo(0.4);
+
+		knob.configure({ keyboardStep: 5 });
+		knob.handleStep(-1);
+		expect(knob.state.value).toBeCloseTo(50);
+	});
+
+	it('turns an endless counter-clockwise dial the other way', () => {
+		const knob = createKnob({ min: 0, max: 10, initialValue: 0, endless: true, angleRange: -360 });
+		knob.handleStart(0);
+		knob.handleMove(330);
+		expect(knob.state.turns).toBeCloseTo(1 / 12);
+	});
+});
+
+describe('onCommit', () => {
+	it('reports a drag once, when it ends', () => {
+		const onCommit = vi.fn();
+		const knob = createKnob({ initialValue: 50, onCommit });
+		knob.handleDeltaStart();
+		knob.handleDeltaMove(0.1);
+		knob.handleDeltaMove(0.1);
+		expect(onCommit).not.toHaveBeenCalled();
+
+		knob.handleEnd();
+		expect(onCommit).toHaveBeenCalledOnce();
+		expect(onCommit).toHaveBeenCalledWith(50, expect.closeTo(70), 'drag');
+	});
+
+	it('does not report a cancelled drag', () => {
+		const onCommit = vi.fn();
+		const knob = createKnob({ initialValue: 50, onCommit });
+		knob.handleDeltaStart();
+		knob.handleDeltaMove(0.1);
+		knob.handleCancel();
+		expect(onCommit).not.toHaveBeenCalled();
+	});
+
+	it('reports steps and jumps to a value', () => {
+		const onCommit = vi.fn();
+		const knob = createKnob({ initialValue: 50, onCommit });
+		knob.handleStep(1);
+		knob.handleSet(10);
+		expect(onCommit.mock.calls).toEqual([
+			[50, 51, 'step'],
+			[51, 10, 'set']
+		]);
+	});
+});
+
+describe('handleFollow', () => {
+	it('moves an active knob, clamped to its range', () => {
+		const onInteractiveChange = vi.fn();
+		const knob = createKnob({ initialValue: 50, onInteractiveChange });
+		knob.handleDeltaStart();
+		knob.handleFollow(120);
+
+		expect(knob.state.value).toBe(100);
+		expect(knob.state.percentage).toBe(1);
+		expect(onInteractiveChange).toHaveBeenCalledWith(100);
+	});
+
+	it('ignores a knob that is not being moved', () => {
+		const knob = createKnob({ initialValue: 50 });
+		knob.handleFollow(70);
+		expect(knob.state.value).toBe(50);
+	});
+});
+
+describe('setValue', () => {
+	it('clamps the value without calling back', () => {
+		const onChange = vi.fn();
+		const knob = createKnob({ initialValue: 10, onChange });
+		knob.setValue(150);
+
+		expect(knob.state.value).toBe(100);
+		expect(knob.state.percentage).toBe(1);
+		expect(onChange).not.toHaveBeenCalled();
+	});
+});
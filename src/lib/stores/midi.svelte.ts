@@ -0,0 +1,383 @@
+import { getValueFromPercentage, snapPercentage } from '../utils/math.js';
+import {
+	MIDI_LSB_OFFSET,
+	MIDI_NRPN_CONTROLLERS,
+	decodeRelativeValue,
+	encodeMidiValue,
+	getMidiResolution,
+	parseControlChange
+} from '../utils/midi.js';
+import type {
+	KnobGesture,
+	MidiCcFormat,
+	MidiMapperState,
+	MidiMapping,
+	MidiRelativeEncoding,
+	MidiTransport,
+	Taper
+} from '../types.js';
+
+/**
+ * Knob store functions the mapper needs to drive a knob
+ */
+interface MidiTarget {
+	handleSet: (value: number, gesture?: KnobGesture) => void;
+	handleStep: (direction: number, gesture?: KnobGesture) => void;
+	state: {
+		value: number | null;
+		percentage: number | null;
+		steps?: number;
+		min: number;
+		max: number;
+		taper: Taper;
+		isActive: boolean;
+	};
+}
+
+/**
+ * Configuration interface for MIDI mapper initialization
+ */
+interface MidiMapperConfiguration {
+	/** Ports the messages are received from and sent to */
+	transport: MidiTransport;
+	/** Initial mappings by knob ID, e.g. restored from storage */
+	mappings?: Record<string, MidiMapping>;
+	/** Whether a knob moved on screen waits for its controller to reach it before following */
+	pickup?: boolean;
+	/** Distance as a share of the dial within which a controller picks up its knob */
+	pickupThreshold?: number;
+	/** Format learned from a plain controller: 'cc7', 'cc14' or 'relative' (NRPN is detected) */
+	learnFormat?: Exclude<MidiCcFormat, 'nrpn'>;
+	/** Signing learned for relative encoders */
+	learnEncoding?: MidiRelativeEncoding;
+}
+
+/**
+ * Progress of the soft takeover of a knob
+ */
+interface Pickup {
+	/** Last position sent by the controller */
+	controller: number | null;
+	/** Knob position after the last value applied from the controller */
+	applied: number | null;
+}
+
+/**
+ * Last controller values and NRPN selection of a MIDI channel
+ */
+interface ChannelState {
+	values: number[];
+	hasParameter: boolean;
+}
+
+/**
+ * Creates a mapper driving knobs from MIDI control change messages.
+ * Knobs register with an ID and are mapped to a controller, either directly or
+ * by learning: select a knob with `learn`, then move a controller. Values set
+ * on screen are sent back to the controller, e.g. to motorized faders or LED rings.
+ * Controller input is committed as 'control' edits, which a history coalesces into one entry per move.
+ * @param config - Configuration object for the mapper
+ * @returns Object containing the state and mapper functions
+ */
+export function createMidiMapper({
+	transport,
+	mappings = {},
+	pickup = true,
+	pickupThreshold = 0.02,
+	learnFormat = 'cc7',
+	learnEncoding = 'twosComplement'
+}: MidiMapperConfiguration) {
+	console.debug('[createMidiMapper] Initializing with config:', {
+		mappings,
+		pickup,
+		pickupThreshold,
+		learnFormat,
+		learnEncoding
+	});
+
+	const internalState = $state<MidiMapperState>({
+		mappings: { ...mappings },
+		isLearning: false,
+		learnTarget: null
+	});
+
+	const targets = new Map<string, MidiTarget>();
+	const pickups = new Map<string, Pickup>();
+	const channels: ChannelState[] = Array.from({ length: 16 }, () => ({
+		values: new Array(128).fill(0),
+		hasParameter: false
+	}));
+
+	/**
+	 * Counter for the IDs of knobs registered without one
+	 */
+	let nextId = 0;
+
+	/**
+	 * Whether a value from the controller is being applied, so it is not sent back
+	 */
+	let isApplying = false;
+
+	/**
+	 * Gets the dial position an absolute mapping receives from a message
+	 * @param mapping - Mapping of the knob
+	 * @param channel - Channel of the message
+	 * @param controller - Controller of the message
+	 * @returns Position from 0 to 1, or null when the message is not for the mapping
+	 */
+	function readPercentage(mapping: MidiMapping, channel: number, controller: number) {
+		const { values } = channels[channel];
+		const { dataMsb, dataLsb, parameterMsb, parameterLsb } = MIDI_NRPN_CONTROLLERS;
+
+		switch (mapping.format) {
+			case 'cc7':
+				if (controller !== mapping.controller) return null;
+				return values[controller] / getMidiResolution('cc7');
+			case 'cc14': {
+				const lsb = mapping.controller + MIDI_LSB_OFFSET;
+				if (controller !== mapping.controller && controller !== lsb) return null;
+				return ((values[mapping.controller] << 7) | values[lsb]) / getMidiResolution('cc14');
+			}
+			case 'nrpn': {
+				const parameter = (values[parameterMsb] << 7) | values[parameterLsb];
+				if (controller !== dataMsb && controller !== dataLsb) return null;
+				if (parameter !== mapping.controller) return null;
+				return ((values[dataMsb] << 7) | values[dataLsb]) / getMidiResolution('nrpn');
+			}
+			default:
+				return null;
+		}
+	}
+
+	/**
+	 * Applies a change to a knob without sending it back to the controller
+	 * @param change - Function changing the knob
+	 */
+	function applyChange(change: () => void) {
+		isApplying = true;
+		try {
+			change();
+		} finally {
+			isApplying = false;
+		}
+	}
+
+	/**
+	 * Moves a knob to a controller position, snapped to its steps. With pickup, a knob
+	 * moved on screen follows again once the controller comes within the threshold or crosses it.
+	 * @param id - ID of the knob
+	 * @param target - Knob store
+	 * @param percentage - Controller position, 0-1
+	 */
+	function applyPercentage(id: string, target: MidiTarget, percentage: number) {
+		const current = target.state.percentage;
+		const state = pickups.get(id) ?? { controller: null, applied: null };
+		pickups.set(id, state);
+
+		if (pickup && current !== null && current !== state.applied) {
+			const isReached =
+				Math.abs(percentage - current) <= pickupThreshold ||
+				(state.controller !== null &&
+					Math.sign(state.controller - current) !== Math.sign(percentage - current));
+			state.controller = percentage;
+			if (!isReached) {
+				console.debug('[applyPercentage] Waiting for pickup:', { id, percentage, current });
+				return;
+			}
+		}
+
+		state.controller = percentage;
+		const { steps } = target.state;
+		const snappedPercentage = steps ? snapPercentage(percentage, steps) : percentage;
+		const value = getValueFromPercentage({ ...target.state, percentage: snappedPercentage });
+		if (value !== target.state.value) applyChange(() => target.handleSet(value, 'control'));
+		state.applied = target.state.percentage;
+	}
+
+	/**
+	 * Maps the knob being learned to the controller of a message.
+	 * NRPN is learned from a data entry following a parameter select.
+	 * @param channel - Channel of the message
+	 * @param controller - Controller of the message
+	 */
+	function learnFrom(channel: number, controller: number) {
+		const id = internalState.learnTarget as string;
+		const { values, hasParameter } = channels[channel];
+		const { dataMsb, dataLsb, parameterMsb, parameterLsb } = MIDI_NRPN_CONTROLLERS;
+
+		if (controller === parameterMsb || controller === parameterLsb) return;
+		if (hasParameter && (controller === dataMsb || controller === dataLsb)) {
+			const parameter = (values[parameterMsb] << 7) | values[parameterLsb];
+			map(id, { channel, controller: parameter, format: 'nrpn' });
+		} else if (learnFormat === 'cc14') {
+			// Wait for the MSB of a 14-bit pair, any other controller is 7-bit
+			if (controller >= MIDI_LSB_OFFSET && controller < 2 * MIDI_LSB_OFFSET) return;
+			map(id, { channel, controller, format: controller < MIDI_LSB_OFFSET ? 'cc14' : 'cc7' });
+		} else if (learnFormat === 'relative') {
+			map(id, { channel, controller, format: 'relative', encoding: learnEncoding });
+		} else {
+			map(id, { channel, controller, format: 'cc7' });
+		}
+		internalState.learnTarget = null;
+	}
+
+	/**
+	 * Handles an incoming message: learns it, or moves the knobs mapped to it.
+	 * Knobs being dragged ignore their controller.
+	 * @param data - Raw MIDI message bytes
+	 */
+	function handleMessage(data: ArrayLike<number>) {
+		const message = parseControlChange(data);
+		if (!message) return;
+
+		const { channel, controller, value } = message;
+		const channelState = channels[channel];
+		channelState.values[controller] = value;
+		// A new MSB starts a new 14-bit value
+		if (controller < MIDI_LSB_OFFSET) channelState.values[controller + MIDI_LSB_OFFSET] = 0;
+		if (
+			controller === MIDI_NRPN_CONTROLLERS.parameterMsb ||
+			controller === MIDI_NRPN_CONTROLLERS.parameterLsb
+		) {
+			channelState.hasParameter = true;
+		}
+
+		if (internalState.learnTarget !== null) {
+			learnFrom(channel, controller);
+			return;
+		}
+
+		for (const [id, mapping] of Object.entries(internalState.mappings)) {
+			const target = targets.get(id);
+			if (!target || target.state.isActive || mapping.channel !== channel) continue;
+
+			if (mapping.format === 'relative') {
+				if (controller !== mapping.controller) continue;
+				const steps = decodeRelativeValue(value, mapping.encoding ?? 'twosComplement');
+				console.debug('[handleMessage] Relative change:', { id, steps });
+				if (steps !== 0) applyChange(() => target.handleStep(steps, 'control'));
+				continue;
+			}
+
+			const percentage = readPercentage(mapping, channel, controller);
+			if (percentage === null) continue;
+			console.debug('[handleMessage] Absolute change:', { id, percentage });
+			applyPercentage(id, target, percentage);
+		}
+	}
+
+	/**
+	 * Sends the position of a knob to its controller. Relative encoders receive nothing.
+	 * @param id - ID of the knob
+	 */
+	function send(id: string) {
+		if (isApplying) return;
+
+		const mapping = internalState.mappings[id];
+		const target = targets.get(id);
+		if (!mapping || !target || mapping.format === 'relative' || target.state.percentage === null) {
+			return;
+		}
+
+		console.debug('[send] Sending knob position:', { id, percentage: target.state.percentage });
+		encodeMidiValue(
+			mapping.format,
+			mapping.channel,
+			mapping.controller,
+			target.state.percentage
+		).forEach((message) => transport.send(message));
+		// The controller now shows the knob position, so it needs no pickup
+		pickups.set(id, { controller: target.state.percentage, applied: target.state.percentage });
+	}
+
+	/**
+	 * Registers a knob store with the mapper
+	 * @param target - Knob store (e.g. from `createKnobState`)
+	 * @param id - ID of the knob in the mappings, generated when not given
+	 * @returns The ID, functions bound to it to learn and send it, and one that unregisters it
+	 */
+	function register(target: MidiTarget, id = `knob-${++nextId}`) {
+		console.debug('[register] Registering knob:', id);
+		targets.set(id, target);
+
+		return {
+			id,
+			learn: () => learn(id),
+			send: () => send(id),
+			unregister: () => {
+				if (targets.get(id) === target) targets.delete(id);
+			}
+		};
+	}
+
+	/**
+	 * Maps a knob to a controller, replacing its previous mapping
+	 * @param id - ID of the knob
+	 * @param mapping - Controller of the knob
+	 */
+	function map(id: string, mapping: MidiMapping) {
+		console.debug('[map] Mapping knob:', { id, mapping });
+		internalState.mappings[id] = mapping;
+		pickups.delete(id);
+	}
+
+	/**
+	 * Removes the mapping of a knob
+	 * @param id - ID of the knob
+	 */
+	function unmap(id: string) {
+		console.debug('[unmap] Unmapping knob:', id);
+		delete internalState.mappings[id];
+		pickups.delete(id);
+	}
+
+	/**
+	 * Selects a knob to map to the next controller that moves
+	 * @param id - ID of the knob
+	 */
+	function learn(id: string) {
+		console.debug('[learn] Learning knob:', id);
+		internalState.learnTarget = id;
+	}
+
+	/**
+	 * Turns learn mode on, in which clicking a knob selects it for learning
+	 */
+	function startLearning() {
+		console.debug('[startLearning] Entering learn mode');
+		internalState.isLearning = true;
+	}
+
+	/**
+	 * Turns learn mode off and cancels a pending learn
+	 */
+	function stopLearning() {
+		console.debug('[stopLearning] Leaving learn mode');
+		internalState.isLearning = false;
+		internalState.learnTarget = null;
+	}
+
+	const unsubscribe = transport.subscribe(handleMessage);
+
+	/**
+	 * Stops listening to the transport
+	 */
+	function destroy() {
+		console.debug('[destroy] Unsubscribing from transport');
+		unsubscribe();
+	}
+
+	return {
+		state: internalState,
+		register,
+		map,
+		unmap,
+		learn,
+		startLearning,
+		stopLearning,
+		handleMessage,
+		destroy
+	};
+}
+
+export type MidiMapper = ReturnType<typeof createMidiMapper>;
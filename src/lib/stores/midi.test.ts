@@ -0,0 +1,246 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createKnobState } from './knob.svelte.js';
+import { createKnobHistory } from './history.svelte.js';
+import { createMidiMapper } from './midi.svelte.js';
+import type { MidiTransport } from '../types.js';
+
+type MidiMapperConfiguration = Parameters<typeof createMidiMapper>[0];
+
+/**
+ * Creates a fake MIDI port that records sent messages and lets tests receive messages
+ */
+const createFakeTransport = () => {
+	let listener: ((data: ArrayLike<number>) => void) | null = null;
+	const sent: number[][] = [];
+	const transport: MidiTransport = {
+		subscribe: (newListener) => {
+			listener = newListener;
+			return () => (listener = null);
+		},
+		send: (data) => sent.push(data)
+	};
+	return { transport, sent, receive: (data: number[]) => listener?.(data) };
+};
+
+/**
+ * Creates a mapper over a fake port and a history, with a knob registered with both as gain
+ * @param config - Mapper configuration besides the transport
+ * @param steps - Number of steps the knob snaps to
+ */
+const createMappedKnob = (config: Partial<MidiMapperConfiguration> = {}, steps?: number) => {
+	const port = createFakeTransport();
+	const midi = createMidiMapper({ transport: port.transport, pickup: false, ...config });
+	const history = createKnobHistory();
+
+	let midiLink: ReturnType<typeof midi.register> | null = null;
+	let historyLink: ReturnType<typeof history.register> | null = null;
+	const knob = createKnobState({
+		min: 0,
+		max: 100,
+		initialValue: 0,
+		multiRotation: false,
+		angleOffset: 0,
+		angleRange: 360,
+		size: 100,
+		steps,
+		readOnly: false,
+		tracking: true,
+		useMouseWheel: true,
+		onChange: vi.fn(),
+		onInteractiveChange: () => midiLink?.send(),
+		onStart: vi.fn(),
+		onEnd: vi.fn(),
+		onCommit: (before, after, gesture) => historyLink?.record(before, after, gesture)
+	});
+	midiLink = midi.register(knob, 'gain');
+	historyLink = history.register(knob, 'gain');
+
+	return { ...port, midi, history, knob };
+};
+
+/**
+ * Mapping to CC 7 on channel 1
+ */
+const CC7 = { channel: 0, controller: 7, format: 'cc7' } as const;
+
+describe('createMidiMapper', () => {
+	it('moves a knob from a 7-bit controller', () => {
+		const { knob, receive } = createMappedKnob({
+			mappings: { gain: { channel: 0, controller: 7, format: 'cc7' } }
+		});
+		receive([0xb0, 7, 127]);
+		expect(knob.state.value).toBe(100);
+
+		receive([0xb1, 7, 0]);
+		receive([0xb0, 8, 0]);
+		expect(knob.state.value).toBe(100);
+	});
+
+	it('combines the MSB and LSB of a 14-bit controller', () => {
+		const { knob, receive } = createMappedKnob({
+			mappings: { gain: { channel: 0, controller: 1, format: 'cc14' } }
+		});
+		receive([0xb0, 1, 0x7f]);
+		receive([0xb0, 33, 0x7f]);
+		expect(knob.state.value).toBe(100);
+
+		receive([0xb0, 1, 0x20]);
+		expect(knob.state.value).toBeCloseTo(25, 1);
+	});
+
+	it('reads the data entry of the selected NRPN parameter', () => {
+		const { knob, receive } = createMappedKnob({
+			mappings: { gain: { channel: 0, controller: 300, format: 'nrpn' } }
+		});
+		receive([0xb0, 99, 2]);
+		receive([0xb0, 98, 44]);
+		receive([0xb0, 6, 0x7f]);
+		receive([0xb0, 38, 0x7f]);
+		expect(knob.state.value).toBe(100);
+
+		receive([0xb0, 98, 45]);
+		receive([0xb0, 6, 0]);
+		expect(knob.state.value).toBe(100);
+	});
+
+	it('steps a knob from a relative encoder', () => {
+		const { knob, receive } = createMappedKnob({
+			mappings: { gain: { channel: 0, controller: 16, format: 'relative' } }
+		});
+		receive([0xb0, 16, 3]);
+		expect(knob.state.value).toBeCloseTo(3);
+
+		receive([0xb0, 16, 127]);
+		expect(knob.state.value).toBeCloseTo(2);
+	});
+
+	it('maps the knob being learned to the next controller that moves', () => {
+		const { midi, knob, receive } = createMappedKnob();
+		midi.learn('gain');
+		receive([0xb0, 20, 64]);
+
+		expect(midi.state.mappings.gain).toEqual({ channel: 0, controller: 20, format: 'cc7' });
+		expect(midi.state.learnTarget).toBeNull();
+		expect(knob.state.value).toBe(0);
+
+		receive([0xb0, 20, 127]);
+		expect(knob.state.value).toBe(100);
+	});
+
+	it('learns an NRPN parameter from its data entry', () => {
+		const { midi, receive } = createMappedKnob();
+		midi.learn('gain');
+		receive([0xb0, 99, 0]);
+		receive([0xb0, 98, 12]);
+		receive([0xb0, 6, 64]);
+
+		expect(midi.state.mappings.gain).toEqual({ channel: 0, controller: 12, format: 'nrpn' });
+	});
+
+	it('learns a relative encoder with the configured signing', () => {
+		const { midi, receive } = createMappedKnob({
+			learnFormat: 'relative',
+			learnEncoding: 'binaryOffset'
+		});
+		midi.learn('gain');
+		receive([0xb0, 16, 65]);
+
+		expect(midi.state.mappings.gain).toEqual({
+			channel: 0,
+			controller: 16,
+			format: 'relative',
+			encoding: 'binaryOffset'
+		});
+	});
+
+	it('waits for the controller to reach a knob moved on screen', () => {
+		const { knob, receive } = createMappedKnob({
+			mappings: { gain: { channel: 0, controller: 7, format: 'cc7' } },
+			pickup: true
+		});
+		knob.setValue(50);
+		receive([0xb0, 7, 20]);
+		expect(knob.state.value).toBe(50);
+
+		receive([0xb0, 7, 80]);
+		expect(knob.state.value).toBeCloseTo((80 / 127) * 100);
+	});
+
+	it('sends values set on screen, but not values from the controller', () => {
+		const { knob, sent, receive } = createMappedKnob({
+			mappings: { gain: { channel: 0, controller: 7, format: 'cc7' } }
+		});
+		knob.handleSet(100);
+		expect(sent).toEqual([[0xb0, 7, 127]]);
+
+		receive([0xb0, 7, 0]);
+		expect(sent).toHaveLength(1);
+	});
+
+	it('ignores controllers of knobs being dragged, unregistered or unmapped', () => {
+		const { midi, knob, receive } = createMappedKnob({
+			mappings: { gain: { channel: 0, controller: 7, format: 'cc7' } }
+		});
+		knob.handleDeltaStart();
+		receive([0xb0, 7, 127]);
+		expect(knob.state.value).toBe(0);
+		knob.handleEnd();
+
+		midi.unmap('gain');
+		receive([0xb0, 7, 127]);
+		expect(knob.state.value).toBe(0);
+	});
+
+	it('stops listening when destroyed', () => {
+		const { midi, knob, receive } = createMappedKnob({
+			mappings: { gain: { channel: 0, controller: 7, format: 'cc7' } }
+		});
+		midi.destroy();
+		receive([0xb0, 7, 127]);
+		expect(knob.state.value).toBe(0);
+	});
+
+	it('records a controller sweep as one history entry', () => {
+		const { knob, history, receive, sent } = createMappedKnob({ mappings: { gain: CC7 } });
+		for (let value = 0; value <= 127; value++) receive([0xb0, 7, value]);
+
+		expect(knob.state.value).toBe(100);
+		expect(history.state.past).toHaveLength(1);
+		expect(history.state.past[0]).toMatchObject({ before: 0, after: 100, gesture: 'control' });
+		// Values from the controller are not sent back to it
+		expect(sent).toHaveLength(0);
+
+		history.undo();
+		expect(knob.state.value).toBe(0);
+	});
+
+	it('records relative encoder steps as one history entry', () => {
+		const { knob, midi, history, receive } = createMappedKnob();
+		midi.map('gain', { channel: 0, controller: 10, format: 'relative' });
+		for (let i = 0; i < 5; i++) receive([0xb0, 10, 1]);
+
+		expect(knob.state.value).toBe(5);
+		expect(history.state.past).toHaveLength(1);
+	});
+
+	it('keeps controller moves apart from other edits', () => {
+		const { knob, history, receive } = createMappedKnob({ mappings: { gain: CC7 } });
+		receive([0xb0, 7, 64]);
+		knob.handleStep(1);
+		receive([0xb0, 7, 127]);
+
+		expect(history.state.past.map((entry) => entry.gesture)).toEqual([
+			'control',
+			'step',
+			'control'
+		]);
+	});
+
+	it('snaps absolute controller values to the steps of the knob', () => {
+		const { knob, receive } = createMappedKnob({ mappings: { gain: CC7 } }, 4);
+		receive([0xb0, 7, 40]);
+		expect(knob.state.value).toBe(25);
+		receive([0xb0, 7, 90]);
+		expect(knob.state.value).toBe(75);
+	});
+});
@@ -0,0 +1,265 @@
+import type { InteractiveHookResult, Taper } from '../types.js';
+import { calculatePercentageFromMouseAngle } from '../utils.js';
+import { createKnobState } from './knob.svelte.js';
+
+/**
+ * State store of a single thumb of a range knob
+ */
+export type ThumbState = ReturnType<typeof createKnobState>;
+
+/**
+ * Configuration fields that can be updated after initialization via `configure`
+ */
+type RangeKnobStateConfiguration = Parameters<ThumbState['configure']>[0];
+
+/**
+ * Configuration interface for range knob initialization
+ */
+interface RangeKnobConfiguration {
+	min: number;
+	max: number;
+	/** Initial value of each thumb, in dial order */
+	values: number[];
+	/** Value restored on each thumb by a reset */
+	defaultValues?: number[];
+	angleOffset: number;
+	angleRange: number;
+	size: number;
+	steps?: number;
+	readOnly: boolean;
+	tracking: boolean;
+	useMouseWheel: boolean;
+	taper?: Taper;
+	keyboardStep?: number;
+	/** Called with all thumb values when a thumb changes (after interaction ends) */
+	onChange?: (values: number[]) => void;
+	/** Called with all thumb values during interaction */
+	onInteractiveChange?: (values: number[]) => void;
+	onStart?: (index: number) => void;
+	onEnd?: (index: number) => void;
+}
+
+/**
+ * Creates the state of a knob with several thumbs, e.g. the start and end of a loop region.
+ * Each thumb is a regular knob state; pointer, wheel and step actions go to the active thumb,
+ * which is the thumb closest to the pointer when a drag starts. A thumb cannot pass its neighbours.
+ * @param config - Configuration object for the range knob
+ * @returns Object containing the thumbs, the active thumb and delegating event handlers
+ */
+export function createRangeKnobState({
+	min,
+	max,
+	values,
+	defaultValues,
+	angleOffset = 0,
+	angleRange = 360,
+	size,
+	steps,
+	readOnly,
+	tracking,
+	useMouseWheel,
+	taper = 'linear',
+	keyboardStep,
+	onChange,
+	onInteractiveChange,
+	onStart,
+	onEnd
+}: RangeKnobConfiguration) {
+	console.debug('[createRangeKnobState] Initializing with config:', {
+		min,
+		max,
+		values,
+		defaultValues,
+		angleOffset,
+		angleRange,
+		size,
+		steps,
+		tracking,
+		taper,
+		keyboardStep
+	});
+
+	const rangeState = $state({
+		/** Index of the thumb receiving pointer, wheel and linear drag input */
+		activeIndex: 0,
+		angleOffset,
+		angleRange
+	});
+
+	/**
+	 * Gets the current value of every thumb
+	 */
+	const getValues = () => thumbs.map((thumb) => thumb.state.value ?? min);
+
+	/**
+	 * Keeps a thumb between its neighbours after it moved
+	 * @param index - Index of the thumb that moved
+	 */
+	function constrainThumb(index: number) {
+		const thumb = thumbs[index];
+		const value = thumb.state.value;
+		if (value === null) return;
+
+		// Dial order is descending in value when the range runs from high to low
+		const order = Math.sign(thumb.state.max - thumb.state.min) || 1;
+		const previous = thumbs[index - 1]?.state.value ?? -order * Infinity;
+		const next = thumbs[index + 1]?.state.value ?? order * Infinity;
+		const constrainedValue =
+			order * Math.min(Math.max(order * value, order * previous), order * next);
+		if (constrainedValue === value) return;
+
+		console.debug('[constrainThumb] Stopping thumb at neighbour:', {
+			index,
+			value,
+			constrainedValue
+		});
+		thumb.setValue(constrainedValue);
+	}
+
+	const thumbs: ThumbState[] = values.map((value, index) =>
+		createKnobState({
+			min,
+			max,
+			multiRotation: false,
+			initialValue: value,
+			angleOffset,
+			angleRange,
+			size,
+			steps,
+			readOnly,
+			tracking,
+			useMouseWheel,
+			taper,
+			keyboardStep,
+			defaultValue: defaultValues?.[index],
+			onChange: () => {
+				constrainThumb(index);
+				onChange?.(getValues());
+			},
+			onInteractiveChange: () => {
+				constrainThumb(index);
+				onInteractiveChange?.(getValues());
+			},
+			onStart: () => onStart?.(index),
+			onEnd: () => onEnd?.(index)
+		})
+	);
+
+	/**
+	 * Gets the thumb receiving input
+	 */
+	const getActiveThumb = () => thumbs[rangeState.activeIndex];
+
+	/**
+	 * Finds the thumb closest to a mouse angle.
+	 * Among thumbs sharing a position, the one on the side of the pointer is picked,
+	 * so stacked thumbs can be pulled apart.
+	 * @param mouseAngle - Mouse angle in degrees
+	 * @returns Index of the closest thumb
+	 */
+	function getClosestThumb(mouseAngle: number) {
+		const percentage = calculatePercentageFromMouseAngle({
+			mouseAngle,
+			angleOffset: rangeState.angleOffset,
+			angleRange: rangeState.angleRange
+		});
+
+		let closestIndex = 0;
+		let closestDistance = Infinity;
+		thumbs.forEach((thumb, index) => {
+			const thumbPercentage = thumb.state.percentage ?? 0;
+			const distance = Math.abs(thumbPercentage - percentage);
+			if (
+				distance < closestDistance ||
+				(distance === closestDistance && percentage > thumbPercentage)
+			) {
+				closestIndex = index;
+				closestDistance = distance;
+			}
+		});
+
+		console.debug('[getClosestThumb] Picked thumb:', { mouseAngle, percentage, closestIndex });
+		return closestIndex;
+	}
+
+	/**
+	 * Makes a thumb the target of pointer, wheel and linear drag input (e.g. on focus)
+	 * @param index - Index of the thumb
+	 */
+	function setActiveThumb(index: number) {
+		if (getActiveThumb().state.isActive) return;
+		console.debug('[setActiveThumb] Activating thumb:', index);
+		rangeState.activeIndex = index;
+	}
+
+	/**
+	 * Handles the start of a drag on the closest thumb
+	 * @param mouseAngle - Current mouse angle in degrees
+	 * @param hookResult - Interactive hook result for this event
+	 */
+	function handleStart(mouseAngle: number, hookResult?: InteractiveHookResult) {
+		rangeState.activeIndex = getClosestThumb(mouseAngle);
+		getActiveThumb().handleStart(mouseAngle, hookResult);
+	}
+
+	/**
+	 * Handles the start of a linear drag on the thumb closest to the pointer,
+	 * or on the active thumb when no pointer angle is given
+	 * @param mouseAngle - Mouse angle in degrees where the drag started
+	 */
+	function handleDeltaStart(mouseAngle?: number) {
+		if (mouseAngle !== undefined) rangeState.activeIndex = getClosestThumb(mouseAngle);
+		getActiveThumb().handleDeltaStart();
+	}
+
+	/**
+	 * Sets the value of every thumb from outside an interaction, without firing callbacks
+	 * @param newValues - New thumb values, in dial order
+	 */
+	function setValues(newValues: number[]) {
+		console.debug('[setValues] Setting thumb values:', newValues);
+		thumbs.forEach((thumb, index) => {
+			const value = newValues[index];
+			if (value !== undefined && value !== thumb.state.value) thumb.setValue(value);
+		});
+		thumbs.forEach((_, index) => constrainThumb(index));
+	}
+
+	/**
+	 * Applies configuration changes to every thumb
+	 * @param config - Configuration fields to update
+	 */
+	function configure(config: RangeKnobStateConfiguration) {
+		console.debug('[configure] Updating range configuration:', config);
+		if (config.angleOffset !== undefined) rangeState.angleOffset = config.angleOffset;
+		if (config.angleRange !== undefined) rangeState.angleRange = config.angleRange;
+		thumbs.forEach((thumb) => thumb.configure(config));
+	}
+
+	return {
+		thumbs,
+		get activeIndex() {
+			return rangeState.activeIndex;
+		},
+		/** State of the active thumb, shaped like a single knob state for the event handlers */
+		get state() {
+			return getActiveThumb().state;
+		},
+		getValues,
+		setValues,
+		setActiveThumb,
+		configure,
+		handleStart,
+		handleMove: (mouseAngle: number, hookResult?: InteractiveHookResult) =>
+			getActiveThumb().handleMove(mouseAngle, hookResult),
+		handleDeltaStart,
+		handleDeltaMove: (deltaPercentage: number, hookResult?: InteractiveHookResult) =>
+			getActiveThumb().handleDeltaMove(deltaPercentage, hookResult),
+		handleEnd: () => getActiveThumb().handleEnd(),
+		handleCancel: () => getActiveThumb().handleCancel(),
+		handleStep: (direction: number) => getActiveThumb().handleStep(direction),
+		handleSet: (value: number) => getActiveThumb().handleSet(value),
+		handleReset: () => getActiveThumb().handleReset(),
+		handleEditStart: () => getActiveThumb().handleEditStart()
+	};
+}
@@ -0,0 +1,149 @@
+// @vitest-environment jsdom
+import { describe, expect, it, vi } from 'vitest';
+import { createRangeKnobState } from './rangeKnob.svelte.js';
+import { createKnobEventHandlers } from '../actions/events.js';
+
+type RangeKnobConfiguration = Parameters<typeof createRangeKnobState>[0];
+
+/**
+ * Creates a range knob with thumbs at 20 and 80 on a full circle
+ */
+const createRangeKnob = (config: Partial<RangeKnobConfiguration> = {}) =>
+	createRangeKnobState({
+		min: 0,
+		max: 100,
+		values: [20, 80],
+		angleOffset: 0,
+		angleRange: 360,
+		size: 100,
+		readOnly: false,
+		tracking: true,
+		useMouseWheel: true,
+		...config
+	});
+
+// jsdom has no pointer events
+if (!window.PointerEvent) {
+	window.PointerEvent = class extends MouseEvent {
+		pointerId = 1;
+		pointerType = 'mouse';
+	} as unknown as typeof PointerEvent;
+}
+
+/**
+ * Creates an element at the origin dragging a range knob vertically, so client
+ * coordinates are relative to its center
+ */
+const createVerticalDragElement = (rangeKnob: ReturnType<typeof createRangeKnob>) => {
+	const handlers = createKnobEventHandlers(rangeKnob, {
+		readOnly: false,
+		useMouseWheel: true,
+		dragMode: 'vertical',
+		dragPixels: 100
+	});
+	const element = document.createElement('div');
+	element.setPointerCapture = () => {};
+	element.releasePointerCapture = () => {};
+	element.addEventListener('pointerdown', handlers.handleStart);
+	document.body.append(element);
+	return element;
+};
+
+/**
+ * Dispatches a mouse pointer event at client coordinates
+ */
+const pointer = (target: EventTarget, type: string, clientX: number, clientY: number) =>
+	target.dispatchEvent(
+		new PointerEvent(type, { clientX, clientY, button: 0, bubbles: true, cancelable: true })
+	);
+
+describe('createRangeKnobState', () => {
+	it('drags the thumb closest to the pointer', () => {
+		const rangeKnob = createRangeKnob();
+		rangeKnob.handleStart(270);
+		expect(rangeKnob.activeIndex).toBe(1);
+		rangeKnob.handleEnd();
+
+		rangeKnob.handleStart(36);
+		expect(rangeKnob.activeIndex).toBe(0);
+		rangeKnob.handleEnd();
+
+		const [start, end] = rangeKnob.getValues();
+		expect(start).toBeCloseTo(10);
+		expect(end).toBeCloseTo(75);
+	});
+
+	it('pulls stacked thumbs apart towards the pointer', () => {
+		const rangeKnob = createRangeKnob({ values: [50, 50] });
+		rangeKnob.handleStart(190);
+		expect(rangeKnob.activeIndex).toBe(1);
+		rangeKnob.handleEnd();
+
+		rangeKnob.handleStart(170);
+		expect(rangeKnob.activeIndex).toBe(0);
+	});
+
+	it('stops a thumb at its neighbour', () => {
+		const onChange = vi.fn();
+		const rangeKnob = createRangeKnob({ onChange });
+		rangeKnob.setActiveThumb(0);
+		rangeKnob.handleSet(90);
+
+		expect(rangeKnob.getValues()).toEqual([80, 80]);
+		expect(onChange).toHaveBeenLastCalledWith([80, 80]);
+	});
+
+	it('steps the active thumb', () => {
+		const rangeKnob = createRangeKnob({ keyboardStep: 5 });
+		rangeKnob.setActiveThumb(1);
+		rangeKnob.handleStep(1);
+		expect(rangeKnob.getValues()).toEqual([20, 85]);
+	});
+
+	it('keeps the thumbs in order when set from outside', () => {
+		const rangeKnob = createRangeKnob();
+		rangeKnob.setValues([70, 30]);
+		expect(rangeKnob.getValues()).toEqual([30, 30]);
+	});
+
+	it('resets each thumb to its own default value', () => {
+		const rangeKnob = createRangeKnob({ defaultValues: [10, 90] });
+		rangeKnob.setActiveThumb(1);
+		rangeKnob.handleReset();
+		expect(rangeKnob.getValues()).toEqual([20, 90]);
+	});
+
+	it('keeps the thumbs in dial order on a range running from high to low', () => {
+		const rangeKnob = createRangeKnob({ min: 100, max: 0, values: [80, 20] });
+		rangeKnob.setActiveThumb(0);
+		rangeKnob.handleSet(10);
+		expect(rangeKnob.getValues()).toEqual([20, 20]);
+	});
+
+	it('drags the thumb closest to the pointer in a linear drag mode', () => {
+		const rangeKnob = createRangeKnob();
+		const element = createVerticalDragElement(rangeKnob);
+		rangeKnob.setActiveThumb(0);
+
+		// Press at 288°, the position of the second thumb, then drag up by a tenth of the range
+		const angle = ((288 - 90) * Math.PI) / 180;
+		const x = Math.cos(angle) * 40;
+		const y = Math.sin(angle) * 40;
+		pointer(element, 'pointerdown', x, y);
+		expect(rangeKnob.activeIndex).toBe(1);
+
+		pointer(element, 'pointermove', x, y - 10);
+		pointer(element, 'pointerup', x, y - 10);
+
+		expect(rangeKnob.getValues()[0]).toBe(20);
+		expect(rangeKnob.getValues()[1]).toBeCloseTo(90);
+	});
+
+	it('keeps the active thumb for a linear drag without a pointer angle', () => {
+		const rangeKnob = createRangeKnob();
+		rangeKnob.setActiveThumb(1);
+		rangeKnob.handleDeltaStart();
+		expect(rangeKnob.activeIndex).toBe(1);
+		rangeKnob.handleEnd();
+	});
+});
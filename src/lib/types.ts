@@ -1,3 +1,112 @@
+/**
+ * Custom taper defined by a forward/inverse function pair.
+ * Both functions work on normalized 0-1 ranges.
+ */
+export interface TaperFunctions {
+	/** Maps a dial position (0-1) to a normalized value (0-1) */
+	forward: (percentage: number) => number;
+	/** Maps a normalized value (0-1) back to a dial position (0-1) */
+	inverse: (normalized: number) => number;
+}
+
+/**
+ * Mapping between dial position and value.
+ * - linear: value grows proportionally with the angle
+ * - log: value grows geometrically (e.g. 20 Hz to 20 kHz), requires min and max of the same sign
+ * - exp: value grows slowly at first, then faster (e.g. gain)
+ */
+export type Taper = 'linear' | 'log' | 'exp' | TaperFunctions;
+
+/**
+ * Formats a value for display and for `aria-valuetext` (e.g. "-6 dB")
+ */
+export type ValueFormatter = (value: number) => string;
+
+/**
+ * Colored band of an Arc between two values (e.g. green/yellow/red on a level meter)
+ */
+export interface ArcZone {
+	/** Starting value of the zone */
+	from: number;
+	/** Ending value of the zone */
+	to: number;
+	/** Color of the zone */
+	color: string;
+	/** CSS class for the zone */
+	class?: string;
+}
+
+/**
+ * Animation of the displayed position when the value changes from outside.
+ * A tween moves over a fixed duration, a spring follows stiffness and damping.
+ */
+export type KnobAnimation =
+	| {
+			type: 'tween';
+			/** Duration in milliseconds */
+			duration?: number;
+			/** Easing function, e.g. cubicOut from svelte/easing */
+			easing?: (t: number) => number;
+	  }
+	| {
+			type: 'spring';
+			stiffness?: number;
+			damping?: number;
+	  };
+
+/**
+ * Orientation of text around the dial: upright, or rotated with its angle
+ * so that its top points away from the center
+ */
+export type LabelOrientation = 'upright' | 'radial';
+
+/**
+ * Built-in shape of a Pointer or a Scale tick. Shapes are drawn from the outer
+ * edge (their tip) towards the center.
+ * - rect: rectangle
+ * - circle: circle with radius equal to the width
+ * - triangle: triangle pointing outward
+ * - line: stroked line with round caps, as thick as the width
+ * - needle: triangle tapering outward with a rounded base
+ * - diamond: rhombus
+ * - notch: triangle pointing inward, like a notch cut into the rim
+ * - arrow: arrow pointing outward
+ */
+export type MarkShape =
+	| 'rect'
+	| 'circle'
+	| 'triangle'
+	| 'line'
+	| 'needle'
+	| 'diamond'
+	| 'notch'
+	| 'arrow';
+
+/**
+ * Option of an OptionKnob, e.g. a waveform name or a multiplier
+ */
+export type KnobOption = string | number;
+
+/**
+ * Which knob value a component follows: the user-edited value (target) or the
+ * externally driven actual value in setpoint mode
+ */
+export type KnobValueSource = 'value' | 'actual';
+
+/**
+ * Direction in which the value increases around the dial: clockwise or counter-clockwise
+ */
+export type KnobDirection = 'cw' | 'ccw';
+
+/**
+ * How pointer movement is translated into value changes.
+ * - circular: follows the pointer angle around the knob center
+ * - vertical: dragging up increases the value
+ * - horizontal: dragging right increases the value
+ * - both: combines vertical and horizontal movement
+ */
+export type DragMode = 'circular' | 'vertical' | 'horizontal' | 'both';
+
 /**
  * Internal state interface for the knob component
  */
@@ -11,11 +120,25 @@ export interface KnobState {
 	startPercentage: number | null;
 	startValue: number | null;
 	multiRotation: boolean;
+	endless: boolean;
+	turns: number;
 	angleOffset: number;
 	angleRange: number;
 	tracking: boolean;
 	size: number;
 	steps?: number;
+	taper: Taper;
+	keyboardStep?: number;
+	defaultValue?: number;
+	origin?: number;
+	detents?: number[];
+	detentCapture: number;
+	actual: number | null;
+	actualPercentage: number | null;
+	settleTolerance: number;
+	isSettled: boolean;
+	editable: boolean;
+	isEditing: boolean;
 }
 
 export interface Action {
@@ -33,8 +156,12 @@ export interface Callbacks {
 }
 
 export interface InteractiveHookResult {
+	/** Ignores the interaction when true */
 	readOnly?: boolean;
+	/** Number of snap intervals applied to this move, overriding the knob's steps */
 	steps?: number;
+	/** Drag sensitivity multiplier for this move (e.g. 0.1 for fine adjustment) */
+	sensitivity?: number;
 }
 
 export interface InteractiveHookEvent {
@@ -51,14 +178,184 @@ export interface InteractiveHookEvent {
 export type InteractiveHook = (event: InteractiveHookEvent) => InteractiveHookResult;
 
 /**
- * Context provided to child components
+ * Kind of user edit that committed a value.
+ * - drag: a pointer drag, from press to release
+ * - step: a keyboard or wheel step, coalesced with the steps that follow it
+ * - set: a jump to a value (Home/End, reset, typed value)
+ * - control: input from a hardware controller (e.g. MIDI), coalesced like steps
+ * - follow: moving along with a linked drag of another knob, part of that drag
+ */
+export type KnobGesture = 'drag' | 'step' | 'set' | 'control' | 'follow';
+
+/**
+ * Change of one knob's value
+ */
+export interface KnobHistoryChange {
+	/** ID of the knob in the history */
+	id: string;
+	/** Value before the edit */
+	before: number;
+	/** Value after the edit */
+	after: number;
+}
+
+/**
+ * One undoable edit of a knob
+ */
+export interface KnobHistoryEntry extends KnobHistoryChange {
+	/** Kind of edit */
+	gesture: KnobGesture;
+	/** Time of the last change in milliseconds, used to coalesce steps */
+	time: number;
+	/** Changes of the knobs that moved along with a linked drag, undone and redone with it */
+	linked?: KnobHistoryChange[];
+}
+
+/**
+ * State of an undo/redo history
+ */
+export interface KnobHistoryState {
+	/** Entries that can be undone, most recent last */
+	past: KnobHistoryEntry[];
+	/** Entries that can be redone, most recent last */
+	future: KnobHistoryEntry[];
+}
+
+/**
+ * How a linked drag moves the other knobs of a group.
+ * - absolute: by the same change in value units
+ * - proportional: by the same share of each knob's own range
+ */
+export type KnobLinkMode = 'absolute' | 'proportional';
+
+/**
+ * Modifier key that inverts the linking of a group for one drag
+ */
+export type KnobLinkModifier = 'Alt' | 'Control' | 'Shift' | 'Meta';
+
+/**
+ * State of a group of linked knobs
+ */
+export interface KnobGroupState {
+	/** How the other knobs follow a drag */
+	mode: KnobLinkMode;
+	/** Whether drags move the whole group; false suspends the linking */
+	linked: boolean;
+	/** Key that, held when a drag starts, inverts linked for that drag */
+	modifier: KnobLinkModifier;
+}
+
+/**
+ * Format of the control change messages driving a knob.
+ * - cc7: one 7-bit controller
+ * - cc14: 14-bit value over an MSB controller (0-31) and its LSB controller (+32)
+ * - nrpn: 14-bit value of an NRPN parameter (CC 99/98 select, CC 6/38 data entry)
+ * - relative: encoder sending signed steps on one controller
+ */
+export type MidiCcFormat = 'cc7' | 'cc14' | 'nrpn' | 'relative';
+
+/**
+ * How a relative encoder signs its steps
+ * - twosComplement: 1-63 up, 127 down to 64 (e.g. 127 = -1)
+ * - binaryOffset: 64 is no change, 65 = +1, 63 = -1
+ * - signMagnitude: bit 6 is the sign, 1-63 up, 65-127 down
+ */
+export type MidiRelativeEncoding = 'twosComplement' | 'binaryOffset' | 'signMagnitude';
+
+/**
+ * Mapping of a knob to a hardware controller
+ */
+export interface MidiMapping {
+	/** MIDI channel, 0-15 */
+	channel: number;
+	/** Controller number, or the parameter number for NRPN */
+	controller: number;
+	/** Format of the messages */
+	format: MidiCcFormat;
+	/** Signing of a relative encoder (defaults to 'twosComplement') */
+	encoding?: MidiRelativeEncoding;
+}
+
+/**
+ * Connection to MIDI ports, e.g. Web MIDI or a fake port in tests
+ */
+export interface MidiTransport {
+	/** Calls the listener with each incoming message, returns a function that unsubscribes */
+	subscribe: (listener: (data: ArrayLike<number>) => void) => () => void;
+	/** Sends a message */
+	send: (data: number[]) => void;
+}
+
+/**
+ * State of a MIDI mapper
+ */
+export interface MidiMapperState {
+	/** Mappings by knob ID */
+	mappings: Record<string, MidiMapping>;
+	/** Whether learn mode is on, in which clicking a knob selects it for learning */
+	isLearning: boolean;
+	/** ID of the knob the next controller message is mapped to */
+	learnTarget: string | null;
+}
+
+/**
+ * Internal state of a gauge (meter)
+ */
+export interface GaugeState {
+	/** Latest input value */
+	input: number;
+	/** Displayed level, following the input with attack/release ballistics */
+	level: number;
+	/** Held peak value */
+	peak: number;
+	/** Whether the input reached the overload threshold recently */
+	isOverloaded: boolean;
+}
+
+/**
+ * Context provided by a Gauge to its children, next to the Knob context
+ */
+export interface GaugeContext {
+	state: GaugeState;
+}
+
+/**
+ * Store actions available to child components
+ */
+export interface KnobActions {
+	/** Registers an inline value editor, returns a function that unregisters it */
+	registerEditor: () => () => void;
+	/** Opens the inline value editor */
+	handleEditStart: () => void;
+	/** Commits a typed value (clamped and snapped) */
+	handleEditCommit: (value: number) => void;
+	/** Closes the inline value editor without changing the value */
+	handleEditCancel: () => void;
+}
+
+/**
+ * Context provided to child components.
+ * `config` fields are backed by getters and follow the Knob props reactively.
  */
 export interface KnobContext {
 	state: KnobState;
+	actions: KnobActions;
+	/** Percentage to render, animated when the value changes from outside */
+	displayPercentage: number | null;
 	config: {
 		size: number;
 		angleOffset: number;
+		/** Signed dial sweep in degrees, negative when the direction is 'ccw' */
 		angleRange: number;
+		direction: KnobDirection;
 		steps?: number;
+		min: number;
+		max: number;
+		readOnly: boolean;
+		taper: Taper;
+		format?: ValueFormatter;
+		origin?: number;
+		/** Labels of discrete options, indexed by value */
+		options?: string[];
 	};
 }
@@ -218,40 +218,4 @@ export const snapPercentage = (percentage: number, nbIntervals: number) => {
 	return result;
 };
 
-/**
- * Converts a percentage to an actual value based on min/max range
- * @param params - Object containing min, max, and percentage
- * @returns Calculated value
- */
-export const getValueFromPercentage = ({
-	min,
-	max,
-	percentage
-}: {
-	min: number;
-	max: number;
-	percentage: number;
-}) => {
-	const result = min + (max - min) * percentage;
-	console.debug('[getValueFromPercentage]', { min, max, percentage, result });
-	return result;
-};
-
-/**
- * Converts a value to a percentage based on min/max range
- * @param params - Object containing min, max, and value
- * @returns Calculated percentage
- */
-export const getPercentageFromValue = ({
-	min,
-	max,
-	value
-}: {
-	min: number;
-	max: number;
-	value: number;
-}) => {
-	const result = (value - min) / (max - min);
-	console.debug('[getPercentageFromValue]', { min, max, value, result });
-	return result;
-};
+export { getValueFromPercentage, getPercentageFromValue } from './utils/math.js';
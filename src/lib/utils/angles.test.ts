@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { getDeltaAngle, getSignedAngleRange, wrapPercentage } from './angles.js';
+
+describe('getDeltaAngle', () => {
+	it('takes the shortest way round', () => {
+		expect(getDeltaAngle(30, 10)).toBe(20);
+		expect(getDeltaAngle(10, 350)).toBe(20);
+		expect(getDeltaAngle(350, 10)).toBe(-20);
+	});
+});
+
+describe('wrapPercentage', () => {
+	it('wraps turns into the current turn', () => {
+		expect(wrapPercentage(2.25)).toBe(0.25);
+		expect(wrapPercentage(-0.25)).toBe(0.75);
+		expect(wrapPercentage(1)).toBe(0);
+	});
+});
+
+describe('getSignedAngleRange', () => {
+	it('negates the range of a counter-clockwise dial', () => {
+		expect(getSignedAngleRange(270)).toBe(270);
+		expect(getSignedAngleRange(270, 'cw')).toBe(270);
+		expect(getSignedAngleRange(270, 'ccw')).toBe(-270);
+	});
+});
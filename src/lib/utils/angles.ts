@@ -3,6 +3,7 @@
  */
 
 import { clamp } from './math.js';
+import type { KnobDirection } from '../types.js';
 
 /**
  * Position interface representing the state of a knob interaction
@@ -13,6 +14,16 @@ export interface Position {
 	percentage: number;
 }
 
+/**
+ * Gets the signed angle range of the dial, negative when the value increases counter-clockwise.
+ * All angle math works with the signed range, so renderers and input handling follow the direction.
+ */
+export const getSignedAngleRange = (angleRange: number, direction: KnobDirection = 'cw') => {
+	const result = direction === 'ccw' ? -angleRange : angleRange;
+	console.debug('[getSignedAngleRange]', { angleRange, direction, result });
+	return result;
+};
+
 /**
  * Calculates the percentage (0-1) based on mouse angle relative to knob configuration
  */
@@ -150,3 +161,21 @@ export const snapPosition = (
 		percentage: snappedPercentage
 	};
 };
+
+/**
+ * Normalizes the change between two mouse angles to the shortest way round (-180 to 180)
+ */
+export const getDeltaAngle = (mouseAngle: number, previousMouseAngle: number) => {
+	const result = ((((mouseAngle - previousMouseAngle) % 360) + 540) % 360) - 180;
+	console.debug('[getDeltaAngle]', { mouseAngle, previousMouseAngle, result });
+	return result;
+};
+
+/**
+ * Wraps a percentage into 0-1, e.g. the position of an endless knob within its current turn
+ */
+export const wrapPercentage = (percentage: number) => {
+	const result = percentage - Math.floor(percentage);
+	console.debug('[wrapPercentage]', { percentage, result });
+	return result;
+};
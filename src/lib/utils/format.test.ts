@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import {
+	createDecibelFormatter,
+	createFrequencyFormatter,
+	createNumberFormatter,
+	createPercentFormatter,
+	createTimeFormatter,
+	parseValue,
+	trimNegativeZero
+} from './format.js';
+
+describe('parseValue', () => {
+	it('parses numbers with SI prefixes and units', () => {
+		expect(parseValue('2.5k')).toBe(2500);
+		expect(parseValue('-6 dB')).toBe(-6);
+		expect(parseValue('1.2 kHz')).toBeCloseTo(1200);
+		expect(parseValue('500m')).toBe(0.5);
+		expect(parseValue('.5')).toBe(0.5);
+	});
+
+	it('accepts typographic minus signs', () => {
+		expect(parseValue('−12 dB')).toBe(-12);
+	});
+
+	it('returns null for text that is not a number', () => {
+		expect(parseValue('abc')).toBeNull();
+		expect(parseValue('')).toBeNull();
+		expect(parseValue('1e999')).toBeNull();
+	});
+
+	it('accepts digit group separators', () => {
+		expect(parseValue('1,000', 'en-US')).toBe(1000);
+		expect(parseValue('1,234,567.5', 'en-US')).toBe(1234567.5);
+		expect(parseValue('1.234,5', 'de-DE')).toBe(1234.5);
+		expect(parseValue('2,5k', 'de-DE')).toBe(2500);
+	});
+
+	it('keeps separators that do not group three digits', () => {
+		expect(parseValue('1,5', 'en-US')).toBeNull();
+		expect(parseValue('1.5', 'en-US')).toBe(1.5);
+	});
+
+	it.each(['en-US', 'de-DE', 'fr-FR', 'de-CH', 'en-IN'])(
+		'reads back formatted values of 1000 and more in %s',
+		(locales) => {
+			const format = createNumberFormatter({ locales, decimals: 2 });
+			for (const value of [1000, 12345, 999999.5, 1234567.25, -5000]) {
+				expect(parseValue(format(value), locales)).toBe(value);
+			}
+		}
+	);
+
+	it('reads back formatted values in the runtime locale', () => {
+		const format = createNumberFormatter();
+		expect(parseValue(format(1000))).toBe(1000);
+		expect(parseValue(format(250000))).toBe(250000);
+	});
+
+	it('reads back large unit values', () => {
+		expect(parseValue(createFrequencyFormatter({ locales: 'en-US' })(2500000), 'en-US')).toBe(
+			2500000
+		);
+		expect(parseValue(createTimeFormatter({ locales: 'en-US' })(3600), 'en-US')).toBe(3600);
+	});
+});
+
+describe('trimNegativeZero', () => {
+	it('removes the sign of a negative zero only', () => {
+		expect(trimNegativeZero('-0.00')).toBe('0.00');
+		expect(trimNegativeZero('-0.01')).toBe('-0.01');
+	});
+});
+
+describe('formatters', () => {
+	it('formats numbers for a locale', () => {
+		expect(createNumberFormatter({ locales: 'en-US', decimals: 2 })(1234.5)).toBe('1,234.5');
+		expect(createNumberFormatter({ locales: 'de-DE', decimals: 2 })(1234.5)).toBe('1.234,5');
+		expect(createNumberFormatter({ locales: 'en-US' })(-0.2)).toBe('0');
+	});
+
+	it('formats a share of max as a percentage', () => {
+		expect(createPercentFormatter({ locales: 'en-US' })(50)).toBe('50%');
+		expect(createPercentFormatter({ locales: 'en-US', max: 1, decimals: 1 })(0.125)).toBe('12.5%');
+	});
+
+	it('formats decibels', () => {
+		const format = createDecibelFormatter({ locales: 'en-US' });
+		expect(format(-6)).toBe('-6 dB');
+		expect(format(-Infinity)).toBe('-∞ dB');
+		expect(createDecibelFormatter({ locales: 'en-US', showPlus: true })(3.25)).toBe('+3.3 dB');
+	});
+
+	it('switches frequencies to kHz from 1000 Hz', () => {
+		const format = createFrequencyFormatter({ locales: 'en-US' });
+		expect(format(440)).toBe('440 Hz');
+		expect(format(2500)).toBe('2.5 kHz');
+	});
+
+	it('switches durations to ms below one second', () => {
+		const format = createTimeFormatter({ locales: 'en-US' });
+		expect(format(0.25)).toBe('250 ms');
+		expect(format(1.5)).toBe('1.5 s');
+	});
+});
@@ -0,0 +1,192 @@
+/**
+ * Formatting and parsing utilities for displaying and entering knob values
+ */
+
+import type { ValueFormatter } from '../types.js';
+
+/**
+ * Multipliers for SI prefixes accepted when parsing typed values
+ */
+const SI_PREFIXES: Record<string, number> = {
+	p: 1e-12,
+	n: 1e-9,
+	u: 1e-6,
+	µ: 1e-6,
+	m: 1e-3,
+	k: 1e3,
+	K: 1e3,
+	M: 1e6,
+	G: 1e9
+};
+
+/**
+ * Number followed by an optional SI prefix and an optional unit, e.g. "2.5k", "-6 dB", "1.2 kHz"
+ */
+const VALUE_PATTERN =
+	/^([+-]?(?:\d+(?:\.\d*)?|\.\d+)(?:e[+-]?\d+)?)\s*([pnuµmkKMG])?\s*([a-zA-Z%°]*)$/;
+
+/**
+ * Gets the digit group and decimal separators of a locale, e.g. "," and "." for English
+ * @param locales - Locales as passed to `Intl.NumberFormat`
+ */
+const getSeparators = (locales?: string | string[]) => {
+	const parts = new Intl.NumberFormat(locales).formatToParts(11111.1);
+	return {
+		group: parts.find((part) => part.type === 'group')?.value ?? ',',
+		decimal: parts.find((part) => part.type === 'decimal')?.value ?? '.'
+	};
+};
+
+/**
+ * Turns a localized number into plain digits, so formatted values such as "1,000"
+ * or "1 234,5" parse. A group separator only counts as one when groups of digits
+ * ending in three follow (also the two-digit groups of "1,00,000"), so "2,5k" keeps its comma.
+ * @param text - Text typed by the user
+ * @param locales - Locales the text was formatted with
+ */
+const delocalize = (text: string, locales?: string | string[]) => {
+	const { group, decimal } = getSeparators(locales);
+	const escapedGroup = group.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+	// Spaces used for grouping vary between locales and runtimes
+	const groupPattern = /\s/.test(group) ? '[\\s\\u00a0\\u202f]' : escapedGroup;
+	const withoutGroups = text.replace(
+		new RegExp(`(?<=\\d)${groupPattern}(?=(?:\\d{2}${groupPattern})*\\d{3}(?!\\d))`, 'g'),
+		''
+	);
+	return decimal === '.' ? withoutGroups : withoutGroups.replace(decimal, '.');
+};
+
+/**
+ * Parses a typed value with an optional SI prefix and unit.
+ * Digit group and decimal separators of the locale are accepted, e.g. "1,000 Hz".
+ * @param text - Text typed by the user
+ * @param locales - Locales the value was formatted with (defaults to the runtime locale)
+ * @returns Parsed number, or null if the text is not a number
+ */
+export const parseValue = (text: string, locales?: string | string[]): number | null => {
+	const match = VALUE_PATTERN.exec(delocalize(text.trim().replace(/[−–]/g, '-'), locales));
+	if (!match) {
+		console.debug('[parseValue] Could not parse:', text);
+		return null;
+	}
+
+	const [, number, prefix, unit] = match;
+	const multiplier = prefix ? SI_PREFIXES[prefix] : 1;
+	const result = Number.parseFloat(number) * multiplier;
+	console.debug('[parseValue]', { text, number, prefix, unit, result });
+	return Number.isFinite(result) ? result : null;
+};
+
+/**
+ * Removes negative sign from zero values
+ * @param value - String representation of number
+ * @returns Formatted string without negative zero
+ */
+export const trimNegativeZero = (value: string) => {
+	if (value.startsWith('-') && Number.parseFloat(value) === 0) {
+		return value.slice(1);
+	}
+	return value;
+};
+
+/**
+ * Common options for the built-in formatters
+ */
+export interface FormatterOptions {
+	/** Maximum number of decimal places */
+	decimals?: number;
+	/** Locales passed to `Intl.NumberFormat` */
+	locales?: string | string[];
+}
+
+/**
+ * Rounds a value to a number of decimals, turning negative zero into zero
+ */
+const roundValue = (value: number, decimals: number) => {
+	const rounded = Number(value.toFixed(decimals));
+	return rounded === 0 ? 0 : rounded;
+};
+
+/**
+ * Creates a formatter based on `Intl.NumberFormat` for the given locales
+ * @param options - Decimals and locales, plus any `Intl.NumberFormat` option
+ * @returns Function formatting a value as a localized string
+ */
+export const createNumberFormatter = ({
+	decimals = 0,
+	locales,
+	...intlOptions
+}: FormatterOptions & Intl.NumberFormatOptions = {}): ValueFormatter => {
+	const formatter = new Intl.NumberFormat(locales, {
+		maximumFractionDigits: decimals,
+		...intlOptions
+	});
+	return (value) => formatter.format(roundValue(value, decimals));
+};
+
+/**
+ * Creates a formatter showing the value as a percentage of `max`, e.g. "50%"
+ * @param options - Decimals, locales and the value matching 100% (defaults to 100)
+ * @returns Function formatting a value as a localized percentage
+ */
+export const createPercentFormatter = ({
+	decimals = 0,
+	locales,
+	max = 100
+}: FormatterOptions & { max?: number } = {}): ValueFormatter => {
+	const formatter = new Intl.NumberFormat(locales, {
+		style: 'percent',
+		maximumFractionDigits: decimals
+	});
+	return (value) => formatter.format(roundValue(value / max, decimals + 2));
+};
+
+/**
+ * Creates a formatter for decibel values, e.g. "-6 dB" or "-∞ dB"
+ * @param options - Decimals, locales and whether to show a plus sign on positive values
+ * @returns Function formatting a value in decibels
+ */
+export const createDecibelFormatter = ({
+	decimals = 1,
+	locales,
+	showPlus = false
+}: FormatterOptions & { showPlus?: boolean } = {}): ValueFormatter => {
+	const formatter = new Intl.NumberFormat(locales, {
+		maximumFractionDigits: decimals,
+		signDisplay: showPlus ? 'exceptZero' : 'auto'
+	});
+	return (value) =>
+		value === -Infinity ? '-∞ dB' : `${formatter.format(roundValue(value, decimals))} dB`;
+};
+
+/**
+ * Creates a formatter for frequencies in Hz, switching to kHz from 1000 Hz, e.g. "440 Hz" or "2.5 kHz"
+ * @param options - Decimals and locales
+ * @returns Function formatting a value in Hz or kHz
+ */
+export const createFrequencyFormatter = ({
+	decimals = 1,
+	locales
+}: FormatterOptions = {}): ValueFormatter => {
+	const formatter = new Intl.NumberFormat(locales, { maximumFractionDigits: decimals });
+	return (value) =>
+		Math.abs(value) >= 1000
+			? `${formatter.format(roundValue(value / 1000, decimals))} kHz`
+			: `${formatter.format(roundValue(value, decimals))} Hz`;
+};
+
+/**
+ * Creates a formatter for durations in seconds, switching to ms below one second, e.g. "250 ms" or "1.5 s"
+ * @param options - Decimals and locales
+ * @returns Function formatting a value in ms or s
+ */
+export const createTimeFormatter = ({
+	decimals = 1,
+	locales
+}: FormatterOptions = {}): ValueFormatter => {
+	const formatter = new Intl.NumberFormat(locales, { maximumFractionDigits: decimals });
+	return (value) =>
+		Math.abs(value) < 1
+			? `${formatter.format(roundValue(value * 1000, decimals))} ms`
+			: `${formatter.format(roundValue(value, decimals))} s`;
+};
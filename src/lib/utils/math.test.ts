@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { getPercentageFromValue, getValueFromPercentage } from './math.js';
+import type { Taper } from '../types.js';
+
+describe('tapers', () => {
+	it('maps the middle of a log taper to the geometric mean', () => {
+		expect(
+			getValueFromPercentage({ min: 20, max: 20000, percentage: 0.5, taper: 'log' })
+		).toBeCloseTo(Math.sqrt(20 * 20000));
+		expect(getPercentageFromValue({ min: 20, max: 20000, value: 2000, taper: 'log' })).toBeCloseTo(
+			2 / 3
+		);
+	});
+
+	it('falls back to linear for a log taper on a range crossing zero', () => {
+		expect(getValueFromPercentage({ min: -10, max: 10, percentage: 0.25, taper: 'log' })).toBe(-5);
+	});
+
+	it('grows slowly at first with an exp taper', () => {
+		const value = getValueFromPercentage({ min: 0, max: 100, percentage: 0.5, taper: 'exp' });
+		expect(value).toBeGreaterThan(0);
+		expect(value).toBeLessThan(50);
+	});
+
+	it.each<[string, Taper]>([
+		['linear', 'linear'],
+		['log', 'log'],
+		['exp', 'exp'],
+		['custom', { forward: (p) => p * p, inverse: (n) => Math.sqrt(n) }]
+	])('maps values back to their positions with a %s taper', (_, taper) => {
+		for (const percentage of [0, 0.1, 0.5, 0.9, 1]) {
+			const value = getValueFromPercentage({ min: 20, max: 20000, percentage, taper });
+			expect(getPercentageFromValue({ min: 20, max: 20000, value, taper })).toBeCloseTo(percentage);
+		}
+	});
+});
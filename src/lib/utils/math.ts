@@ -2,6 +2,13 @@
  * Math utilities for value calculations and clamping
  */
 
+import type { Taper } from '../types.js';
+
+/**
+ * Curvature of the built-in exponential taper
+ */
+const EXP_TAPER_CURVATURE = 4;
+
 /**
  * Clamps a value between a minimum and maximum value
  */
@@ -20,36 +27,78 @@ export const snapPercentage = (percentage: number, nbIntervals: number) => {
 	return result;
 };
 
+/**
+ * Whether a logarithmic mapping is possible for a range (non-zero bounds of the same sign)
+ */
+const canUseLogTaper = (min: number, max: number) => min * max > 0;
+
+/**
+ * Maps a dial position (0-1) to a normalized value (0-1) using an exponential curve
+ */
+const expForward = (percentage: number) =>
+	(Math.exp(EXP_TAPER_CURVATURE * percentage) - 1) / (Math.exp(EXP_TAPER_CURVATURE) - 1);
+
+/**
+ * Maps a normalized value (0-1) back to a dial position (0-1) using an exponential curve
+ */
+const expInverse = (normalized: number) =>
+	Math.log(1 + normalized * (Math.exp(EXP_TAPER_CURVATURE) - 1)) / EXP_TAPER_CURVATURE;
+
 /**
  * Converts a percentage to a value within a range
+ * Falls back to a linear mapping when a log taper is used on a range crossing zero
  */
 export const getValueFromPercentage = ({
 	min,
 	max,
-	percentage
+	percentage,
+	taper = 'linear'
 }: {
 	min: number;
 	max: number;
 	percentage: number;
+	taper?: Taper;
 }) => {
-	const result = min + (max - min) * percentage;
-	console.debug('[getValueFromPercentage]', { min, max, percentage, result });
+	let result: number;
+	if (taper === 'log' && canUseLogTaper(min, max)) {
+		result = min * Math.pow(max / min, percentage);
+	} else if (taper === 'exp') {
+		result = min + (max - min) * expForward(percentage);
+	} else if (typeof taper === 'object') {
+		result = min + (max - min) * taper.forward(percentage);
+	} else {
+		result = min + (max - min) * percentage;
+	}
+	console.debug('[getValueFromPercentage]', { min, max, percentage, taper, result });
 	return result;
 };
 
 /**
  * Converts a value to a percentage within a range
+ * Falls back to a linear mapping when a log taper is used on a range crossing zero
  */
 export const getPercentageFromValue = ({
 	min,
 	max,
-	value
+	value,
+	taper = 'linear'
 }: {
 	min: number;
 	max: number;
 	value: number;
+	taper?: Taper;
 }) => {
-	const result = (value - min) / (max - min);
-	console.debug('[getPercentageFromValue]', { min, max, value, result });
+	const normalized = (value - min) / (max - min);
+	let result: number;
+	if (taper === 'log' && canUseLogTaper(min, max)) {
+		result = value / min > 0 ? Math.log(value / min) / Math.log(max / min) : 0;
+	} else if (taper === 'exp') {
+		result = expInverse(normalized);
+	} else if (typeof taper === 'object') {
+		result = taper.inverse(normalized);
+	} else {
+		result = normalized;
+	}
+	console.debug('[getPercentageFromValue]', { min, max, value, taper, result });
 	return result;
 };
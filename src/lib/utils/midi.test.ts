@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import {
+	decodeRelativeValue,
+	encodeControlChange,
+	encodeMidiValue,
+	parseControlChange
+} from './midi.js';
+
+describe('parseControlChange', () => {
+	it('decodes the channel, controller and value', () => {
+		expect(parseControlChange([0xb3, 7, 100])).toEqual({ channel: 3, controller: 7, value: 100 });
+	});
+
+	it('ignores other messages', () => {
+		expect(parseControlChange([0x90, 60, 100])).toBeNull();
+		expect(parseControlChange([0xb0, 7])).toBeNull();
+	});
+});
+
+describe('encodeControlChange', () => {
+	it('masks each byte to its range', () => {
+		expect(encodeControlChange(17, 7, 130)).toEqual([0xb1, 7, 2]);
+	});
+});
+
+describe('encodeMidiValue', () => {
+	it('encodes a 7-bit controller', () => {
+		expect(encodeMidiValue('cc7', 0, 7, 1)).toEqual([[0xb0, 7, 127]]);
+		expect(encodeMidiValue('cc7', 0, 7, 1.5)).toEqual([[0xb0, 7, 127]]);
+	});
+
+	it('encodes a 14-bit controller as MSB then LSB', () => {
+		expect(encodeMidiValue('cc14', 0, 1, 0.5)).toEqual([
+			[0xb0, 1, 0x40],
+			[0xb0, 33, 0]
+		]);
+	});
+
+	it('selects the NRPN parameter before the data entry', () => {
+		expect(encodeMidiValue('nrpn', 2, 300, 1)).toEqual([
+			[0xb2, 99, 2],
+			[0xb2, 98, 44],
+			[0xb2, 6, 127],
+			[0xb2, 38, 127]
+		]);
+	});
+});
+
+describe('decodeRelativeValue', () => {
+	it('decodes each signing', () => {
+		expect(decodeRelativeValue(1, 'twosComplement')).toBe(1);
+		expect(decodeRelativeValue(127, 'twosComplement')).toBe(-1);
+		expect(decodeRelativeValue(65, 'binaryOffset')).toBe(1);
+		expect(decodeRelativeValue(63, 'binaryOffset')).toBe(-1);
+		expect(decodeRelativeValue(3, 'signMagnitude')).toBe(3);
+		expect(decodeRelativeValue(67, 'signMagnitude')).toBe(-3);
+	});
+});
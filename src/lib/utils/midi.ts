@@ -0,0 +1,138 @@
+/**
+ * MIDI control change encoding and decoding, and the Web MIDI transport
+ */
+
+import { clamp } from './math.js';
+import type { MidiCcFormat, MidiRelativeEncoding, MidiTransport } from '../types.js';
+
+/**
+ * Status nibble of a control change message
+ */
+const CONTROL_CHANGE = 0xb0;
+
+/**
+ * Controller numbers of the NRPN parameter select and data entry messages
+ */
+export const MIDI_NRPN_CONTROLLERS = {
+	parameterMsb: 99,
+	parameterLsb: 98,
+	dataMsb: 6,
+	dataLsb: 38
+} as const;
+
+/**
+ * Offset from the MSB to the LSB controller of a 14-bit control change
+ */
+export const MIDI_LSB_OFFSET = 32;
+
+/**
+ * A decoded control change message
+ */
+export interface ControlChange {
+	/** MIDI channel, 0-15 */
+	channel: number;
+	/** Controller number, 0-127 */
+	controller: number;
+	/** 7-bit value, 0-127 */
+	value: number;
+}
+
+/**
+ * Decodes a control change message
+ * @param data - Raw MIDI message bytes
+ * @returns The control change, or null for any other message
+ */
+export const parseControlChange = (data: ArrayLike<number>): ControlChange | null => {
+	if (data.length < 3 || (data[0] & 0xf0) !== CONTROL_CHANGE) return null;
+	return { channel: data[0] & 0x0f, controller: data[1] & 0x7f, value: data[2] & 0x7f };
+};
+
+/**
+ * Encodes a control change message
+ * @param channel - MIDI channel, 0-15
+ * @param controller - Controller number, 0-127
+ * @param value - 7-bit value, 0-127
+ */
+export const encodeControlChange = (channel: number, controller: number, value: number) => [
+	CONTROL_CHANGE | (channel & 0x0f),
+	controller & 0x7f,
+	value & 0x7f
+];
+
+/**
+ * Gets the highest raw value of an absolute format
+ * @param format - Absolute CC format
+ */
+export const getMidiResolution = (format: Exclude<MidiCcFormat, 'relative'>) =>
+	format === 'cc7' ? 0x7f : 0x3fff;
+
+/**
+ * Encodes a dial position as the messages of an absolute format
+ * @param format - Absolute CC format
+ * @param channel - MIDI channel, 0-15
+ * @param controller - Controller number (0-31 for cc14), or the NRPN parameter number
+ * @param percentage - Dial position, 0-1
+ * @returns Messages to send in order
+ */
+export const encodeMidiValue = (
+	format: Exclude<MidiCcFormat, 'relative'>,
+	channel: number,
+	controller: number,
+	percentage: number
+): number[][] => {
+	const raw = Math.round(clamp(0, 1, percentage) * getMidiResolution(format));
+	if (format === 'cc7') return [encodeControlChange(channel, controller, raw)];
+
+	const messages = [
+		encodeControlChange(
+			channel,
+			format === 'nrpn' ? MIDI_NRPN_CONTROLLERS.dataMsb : controller,
+			raw >> 7
+		),
+		encodeControlChange(
+			channel,
+			format === 'nrpn' ? MIDI_NRPN_CONTROLLERS.dataLsb : controller + MIDI_LSB_OFFSET,
+			raw & 0x7f
+		)
+	];
+	if (format === 'cc14') return messages;
+
+	return [
+		encodeControlChange(channel, MIDI_NRPN_CONTROLLERS.parameterMsb, controller >> 7),
+		encodeControlChange(channel, MIDI_NRPN_CONTROLLERS.parameterLsb, controller & 0x7f),
+		...messages
+	];
+};
+
+/**
+ * Decodes the value of a relative encoder into a signed number of steps
+ * @param value - 7-bit value, 0-127
+ * @param encoding - How the encoder signs its value
+ */
+export const decodeRelativeValue = (value: number, encoding: MidiRelativeEncoding) => {
+	switch (encoding) {
+		case 'binaryOffset':
+			return value - 64;
+		case 'signMagnitude':
+			return value & 0x40 ? -(value & 0x3f) : value & 0x3f;
+		default:
+			return value < 64 ? value : value - 128;
+	}
+};
+
+/**
+ * Creates a transport over Web MIDI ports, e.g. from `navigator.requestMIDIAccess()`
+ * @param input - Port receiving the controller messages
+ * @param output - Port sending the knob values back, if any
+ */
+export const createWebMidiTransport = (input?: MIDIInput, output?: MIDIOutput): MidiTransport => ({
+	subscribe: (listener) => {
+		if (!input) return () => {};
+		const handleMessage = (e: MIDIMessageEvent) => {
+			if (e.data) listener(e.data);
+		};
+		input.addEventListener('midimessage', handleMessage);
+		return () => input.removeEventListener('midimessage', handleMessage);
+	},
+	send: (data) => output?.send(data)
+});
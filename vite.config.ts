@@ -1,9 +1,14 @@
 import { sveltekit } from '@sveltejs/kit/vite';
-import { defineConfig } from 'vite';
+import { defineConfig } from 'vitest/config';
 
-export default defineConfig({
+export default defineConfig(({ mode }) => ({
 	plugins: [sveltekit()],
 	esbuild: {
 		drop: ['console']
+	},
+	// Components mount with the browser build of Svelte in tests
+	resolve: mode === 'test' ? { conditions: ['browser'] } : undefined,
+	test: {
+		include: ['src/**/*.{test,spec}.{js,ts}']
 	}
-});
+}));